@@ -10,11 +10,32 @@ import {
   AnyConfig,
   isStateItem,
   isActionItem,
-  SetStateCallback,
+  isComputedItem,
+  isLazyItem,
+  LoadStatus,
   SetStateFunction,
   StateChangeListener,
   StateChanges,
+  StateChangeUpdates,
+  SubscribeOptions,
+  InstanceLifecycleListener,
+  InstanceEntry,
+  Middleware,
+  WriteContext,
+  DEFAULT_STORE_NAME,
   MergeStateTypes,
+  WriteRejection,
+  Transaction,
+  TransactionRunner,
+  Persistence,
+  StorageError,
+  SharedPartition,
+  InstanceKey,
+  ActionCall,
+  ChangeCause,
+  ChangeMetadata,
+  ChangeSource,
+  SetStateForCall,
 } from "./model/crann.model";
 import { AgentInfo, source, Agent } from "porter-source-fork";
 import { deepEqual } from "./utils/deepEqual";
@@ -23,21 +44,184 @@ import { trackStateChange } from "./utils/tracking";
 import { DebugManager } from "./utils/debug";
 import { createCrannRPCAdapter } from "./rpc/adapter";
 import { Logger } from "./utils/logger";
-import { getAgentTag } from "./utils/agent";
+import {
+  getAgentTag,
+  getInstanceKey,
+  getLocationKey,
+  getOpaqueOriginKey,
+  getSharedKey,
+  isOpaqueOriginKey,
+} from "./utils/agent";
+import { migrate, MigrationError, VERSION_SUFFIX } from "./utils/migrations";
+import { analyzeComputed, ComputedEntry, recompute } from "./utils/computed";
+import { watchReads } from "./utils/lazy";
+import {
+  dueEntries,
+  EXPIRES_SUFFIX,
+  Expiry,
+  nextDue,
+  stampExpiry,
+  withoutEntries,
+} from "./utils/expiry";
+import { HistoryStatus, StateHistory } from "./utils/history";
+import { PersistScheduler } from "./storage/scheduler";
+import {
+  createStateUpdate,
+  isPatchable,
+  StateUpdatePayload,
+} from "./utils/patch";
+import { ChunkedSyncStorage } from "./storage/sync";
+import {
+  createBrowserStorageAdapter,
+  StorageAdapter,
+} from "./storage/adapters";
+import {
+  Codec,
+  decodeState,
+  defaultCodec,
+  encodeState,
+  encodeValue,
+} from "./utils/codec";
+
+// One instance's saved value of an item persisted by instance key
+type InstanceRecord = { value: any; touchedAt: number };
+
+type SharedState = Record<SharedPartition, Map<string, Record<string, any>>>;
+
+type StateSubscription<TConfig extends AnyConfig> =
+  SubscribeOptions<TConfig> & {
+    listener: StateChangeListener<TConfig>;
+  };
+
+// An instance whose agent has disconnected, kept for a while in case the
+// agent reconnects
+type DepartedInstance = {
+  id: string;
+  agent: AgentInfo;
+  url?: string;
+  state: Record<string, any>;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// Where an instance's agent runs (see getLocationKey) and the page it is on
+type InstanceLocation = { key: string; url?: string };
+
+// An instance as saved to session storage, so that it survives the service
+// worker being stopped. `state` is encoded.
+type CheckpointEntry = {
+  id: string;
+  agent: AgentInfo;
+  url?: string;
+  state: Record<string, any>;
+  initialized: boolean;
+};
+
+const CHECKPOINT_KEY = "@instances";
+const CHECKPOINT_DEBOUNCE = 100;
+// How long after a restart saved instances wait for their agents to
+// reconnect, unless reconnectGracePeriod is longer
+const RESTORE_TIMEOUT = 10000;
+
+// The causes of changes that are recorded for undo
+const HISTORY_CAUSES: ChangeCause[] = ["setState", "action"];
+
+// State before a change: the service state, and what each affected instance
+// could see
+type PreviousState = {
+  service: Record<string, any>;
+  instances: Map<string, Record<string, any>>;
+};
+
+const emptySharedState = (): SharedState => ({
+  tab: new Map(),
+  window: new Map(),
+  origin: new Map(),
+});
+
+// Broader scopes are merged in first, so the narrower ones win
+const SHARED_PARTITIONS: SharedPartition[] = [
+  Partition.Window,
+  Partition.Origin,
+  Partition.Tab,
+];
 
 export class Crann<TConfig extends AnyConfig> {
-  private static instance: Crann<any> | null = null;
+  private static instances = new Map<string, Crann<any>>();
   private instances: Map<string, DerivedInstanceState<TConfig>> = new Map();
   private defaultServiceState: DerivedServiceState<TConfig>;
   private defaultInstanceState: DerivedInstanceState<TConfig>;
+  // Defaults of the tab and window items. Their groups only hold the values
+  // that have been written.
+  private defaultSharedState: Record<string, any>;
+  private shared: SharedState = emptySharedState();
   private serviceState: DerivedServiceState<TConfig>;
-  private stateChangeListeners: Array<StateChangeListener<TConfig>> = [];
+  private computed: ComputedEntry[];
+  private history: StateHistory | null = null;
+  private historyKeys: Set<string> | null = null;
+  private historyStatus: HistoryStatus = { canUndo: false, canRedo: false };
+  // Set while an undo or redo is applied, so it isn't recorded as a new step
+  private replayingHistory = false;
+  private stateChangeListeners: Array<StateSubscription<TConfig>> = [];
   private instanceReadyListeners: Array<
     (instanceId: string, agent: AgentInfo) => void
   > = [];
-  private storagePrefix = "crann_";
-  private porter = source("crann", { debug: false });
+  private instanceDisconnectedListeners: Array<
+    InstanceLifecycleListener<TConfig>
+  > = [];
+  private instanceRemovedListeners: Array<InstanceLifecycleListener<TConfig>> =
+    [];
+  // Departed instances by location, see CrannOptions.reconnectGracePeriod
+  private departed = new Map<string, DepartedInstance>();
+  private reconnectGracePeriod = 0;
+  private middleware: Array<Middleware<TConfig>> = [];
+  // Lazy items' load status, and the loads in progress
+  private loadStatus: Record<string, LoadStatus> = {};
+  private loads = new Map<string, Promise<any>>();
+  private instanceLocations = new Map<string, InstanceLocation>();
+  // When items with a ttl expire, and the earliest of those times
+  private expiries: Record<string, Expiry> = {};
+  private nextExpiry = Infinity;
+  private expiryTimer?: ReturnType<typeof setTimeout>;
+  // Wakes the service worker for the next expiry if it has been stopped
+  private expiryAlarm: string;
+  // Instances saved before the service worker last stopped, by location,
+  // waiting for their agents to reconnect
+  private restored = new Map<string, CheckpointEntry>();
+  // Instances given back their state from before a restart
+  private resumed = new Set<string>();
+  private migrationErrorListeners: Array<(error: MigrationError) => void> =
+    [];
+  private writeRejectedListeners: Array<(rejection: WriteRejection) => void> =
+    [];
+  private storagePrefix: string;
+  private porter: ReturnType<typeof source>;
+  private codec: Codec = defaultCodec;
   private rpcEndpoint: ReturnType<typeof createCrannRPCAdapter>;
+  private persistScheduler = new PersistScheduler((area, items) =>
+    this.writeStorage(area, items)
+  );
+  // Where persisted items are kept, by name: the browser storage areas plus
+  // any adapters passed in CrannOptions.storageAdapters
+  private adapters: Record<string, StorageAdapter>;
+  // Storage keys whose latest value sits in local storage because storage.sync
+  // refused it
+  private localFallbacks = new Set<string>();
+  private storageErrorListeners: Array<(error: StorageError) => void> = [];
+  // The last value this hub wrote to each storage key (as JSON), so storage
+  // change events caused by its own writes can be told apart from others'
+  private written = new Map<string, string>();
+  // Saved values of persisted instance and origin items, by item and then
+  // instance key (or origin)
+  private instanceRecords = new Map<string, Map<string, InstanceRecord>>();
+  // Track which agents we've already sent initialState to
+  private agentsInitialized = new Set<string>();
+  // The keys each agent has asked to be sent. Agents without an entry get
+  // everything.
+  private interests = new Map<string, Set<string>>();
+  // Sequence number of the latest change
+  private seq = 0;
+  // Resolves once persisted state has been loaded into serviceState
+  private hydrated: Promise<void>;
   // private logger: Logger;
 
   constructor(private config: TConfig, options?: CrannOptions) {
@@ -46,17 +230,111 @@ export class Crann<TConfig extends AnyConfig> {
       DebugManager.setDebug(true);
       Logger.setDebug(true);
     }
-    this.storagePrefix = options?.storagePrefix ?? this.storagePrefix;
+    const name = options?.name ?? DEFAULT_STORE_NAME;
+    this.porter = source(name, { debug: false });
+    this.storagePrefix = options?.storagePrefix ?? `${name}_`;
+    this.codec = options?.codec ?? this.codec;
+    this.reconnectGracePeriod =
+      options?.reconnectGracePeriod ?? this.reconnectGracePeriod;
+    this.middleware = [...(options?.middleware ?? [])];
+    this.expiryAlarm = `crann:${name}:expiry`;
+    this.adapters = {
+      [Persistence.Local]: createBrowserStorageAdapter(Persistence.Local),
+      [Persistence.Session]: createBrowserStorageAdapter(Persistence.Session),
+      [Persistence.Sync]: new ChunkedSyncStorage(),
+      ...options?.storageAdapters,
+    };
+    for (const key in config) {
+      const item = config[key];
+      if (isStateItem(item) && item.adapter && !this.adapters[item.adapter]) {
+        throw new Error(
+          `Unknown storage adapter "${item.adapter}" for item "${key}"`
+        );
+      }
+      if (
+        isStateItem(item) &&
+        (item.ttl !== undefined || item.entryTtl !== undefined) &&
+        "partition" in item &&
+        item.partition !== undefined &&
+        item.partition !== Partition.Service
+      ) {
+        throw new Error(`Item "${key}" has a ttl but isn't service state`);
+      }
+    }
+    if (options?.history) {
+      const history = options.history === true ? {} : options.history;
+      this.history = new StateHistory(
+        history.limit ?? 100,
+        history.groupWithin ?? 500
+      );
+      this.historyKeys = history.keys ? new Set(history.keys) : null;
+    }
 
     // // Set up the core logger
     // this.logger = Logger.forContext("Core");
     // this.logger.log("Constructing Crann with new logger");
 
     // Hydrate the initial state from the config defaults and from storage
+    this.computed = analyzeComputed(config);
     this.defaultInstanceState = this.initializeInstanceDefault();
+    this.defaultSharedState = this.initializeSharedDefault();
     this.defaultServiceState = this.serviceState =
       this.initializeServiceDefault();
-    this.hydrate();
+    for (const key in config) {
+      if (isLazyItem(config[key])) {
+        this.loadStatus[key] = { status: "idle" };
+      }
+    }
+    for (const key in config) {
+      const item = config[key];
+      if (
+        isStateItem(item) &&
+        (item.partition === Partition.Instance ||
+          item.partition === Partition.Origin) &&
+        this.storageAreaOf(item)
+      ) {
+        this.instanceRecords.set(key, new Map());
+      }
+    }
+    this.hydrated = this.hydrate().catch((error) => {
+      // Carry on with the defaults rather than leaving agents waiting forever
+      Logger.forContext("Core").error("Failed to hydrate state:", error);
+    });
+
+    this.watchStorage();
+
+    // Tab and window state lasts as long as the tab or window itself
+    browser.tabs?.onRemoved.addListener((tabId) => {
+      this.shared.tab.delete(String(tabId));
+      // Nothing can reconnect from a closed tab
+      this.departed.forEach((departed, location) => {
+        if (departed.agent.location.tabId === tabId) {
+          this.expireDeparted(location);
+        }
+      });
+      this.restored.forEach((entry, location) => {
+        if (entry.agent.location.tabId === tabId) {
+          this.dropRestored(location);
+        }
+      });
+    });
+    browser.windows?.onRemoved.addListener((windowId) => {
+      this.shared.window.delete(String(windowId));
+    });
+
+    browser.alarms?.onAlarm.addListener((alarm) => {
+      if (alarm.name === this.expiryAlarm) {
+        this.hydrated.then(() => this.expireDue());
+      }
+    });
+
+    // Get pending writes out before the service worker is shut down
+    browser.runtime.onSuspend?.addListener(() => {
+      // Failed writes are reported through onStorageError as they happen
+      this.flush().catch((error) => {
+        Logger.forContext("Core").error("Failed to flush on suspend:", error);
+      });
+    });
 
     // Set up the message handlers
     // this.logger.log("Crann constructed, setting initial message handlers");
@@ -69,13 +347,48 @@ export class Crann<TConfig extends AnyConfig> {
 
         const agentTag = getAgentTag(info);
         // this.logger.withTag(agentTag).log("Setting state:", message);
-        this.set(message.payload.state, info.id);
+        // Writes that arrive before hydration would be overwritten by it
+        this.hydrated.then(() => {
+          const state = decodeState(
+            this.config,
+            message.payload.state,
+            this.codec
+          );
+
+          const allowed = this.rejectForbidden(state, info);
+          if (Object.keys(allowed).length > 0) {
+            this.write(
+              allowed,
+              info.id,
+              this.sourceFrom("setState", info)
+            ).catch((error) => {
+              Logger.forContext("Core").error(
+                "Failed to apply agent write:",
+                error
+              );
+            });
+          }
+        });
+      },
+      setInterest: (message, info) => {
+        if (!info) return;
+        // Applied straight away, so it can still filter the initial state
+        this.setInterest(info.id, message.payload.keys);
+      },
+      undo: (message, info) => {
+        if (!info) return;
+        this.hydrated.then(() => this.replayHistory("undo", info));
+      },
+      redo: (message, info) => {
+        if (!info) return;
+        this.hydrated.then(() => this.replayHistory("redo", info));
+      },
+      load: (message, info) => {
+        if (!info) return;
+        this.requestLoad(message.payload.keys);
       },
     });
 
-    // Track which agents we've already sent initialState to
-    const agentsInitialized = new Set<string>();
-
     // Once the agents are connected and have set up their listeners, send them the initial state
     this.porter.onMessagesSet((info: AgentInfo) => {
       if (!info) {
@@ -89,11 +402,11 @@ export class Crann<TConfig extends AnyConfig> {
       //   context: info.location.context,
       //   tabId: info.location.tabId,
       //   frameId: info.location.frameId,
-      //   alreadyInitialized: agentsInitialized.has(info.id),
+      //   alreadyInitialized: this.agentsInitialized.has(info.id),
       // });
 
       // Skip sending initialState if we've already sent it to this agent
-      if (agentsInitialized.has(info.id)) {
+      if (this.agentsInitialized.has(info.id)) {
         // this.logger
         //   .withTag(agentTag)
         //   .log("Already sent initialState to agent, skipping:", info.id);
@@ -101,21 +414,39 @@ export class Crann<TConfig extends AnyConfig> {
       }
 
       // Add the agent to the set of agents we've already sent initialState to
-      agentsInitialized.add(info.id);
+      this.agentsInitialized.add(info.id);
+      this.checkpoint();
 
       // this.logger
       //   .withTag(agentTag)
       //   .log("Messages set received. Sending initial state.", { info });
-      const fullState = this.get(info.id);
-      this.porter.post(
-        {
-          action: "initialState",
-          payload: { state: fullState, info },
-        },
-        info.location
-      );
+      // Hold the initial state back until it reflects what's in storage
+      this.hydrated.then(() => {
+        const fullState = this.filterByInterest(info.id, this.read(info.id));
+        this.porter.post(
+          {
+            action: "initialState",
+            payload: {
+              state: encodeState(this.config, fullState, this.codec),
+              info,
+              history: this.historyStatus,
+              loadStatus: this.loadStatus,
+              meta: { cause: "hydrate", timestamp: Date.now(), seq: this.seq },
+            },
+          },
+          info.location
+        );
 
-      this.notifyInstanceReady(info.id, info);
+        // A resumed agent was ready before the service worker restarted
+        if (!this.resumed.delete(info.id)) {
+          this.notifyInstanceReady(info.id, info);
+        }
+      }).catch((error) => {
+        Logger.forContext("Core").error(
+          "Failed to send initial state:",
+          error
+        );
+      });
     });
 
     // Handle agent connection and disconnection
@@ -126,47 +457,60 @@ export class Crann<TConfig extends AnyConfig> {
       }
       const agentTag = getAgentTag(info);
       // this.logger.withTag(agentTag).log("Agent connected", { info });
-      this.addInstance(info.id, agentTag);
-      this.porter.onDisconnect((info: AgentInfo) => {
-        // this.logger
-        //   .withTag(getAgentTag(info))
-        //   .log(
-        //     "Agent disconnect heard. Connection type, context and location:",
-        //     { info }
-        //   );
-        this.removeInstance(info.id);
-      });
+      this.addInstance(info, agentTag);
+    });
+    this.porter.onDisconnect((info: AgentInfo) => {
+      if (!info) return;
+      // this.logger
+      //   .withTag(getAgentTag(info))
+      //   .log(
+      //     "Agent disconnect heard. Connection type, context and location:",
+      //     { info }
+      //   );
+      this.removeInstance(info);
     });
 
-    const setStateCallback: SetStateCallback<TConfig> = ((
-      state: any,
-      key?: string
-    ) => {
-      if (key !== undefined) {
-        return this.set(state, key);
-      } else {
-        return this.set(state);
-      }
-    }) as SetStateCallback<TConfig>;
-
-    // Cast to the generic version when passing to RPC adapter
-    const genericSetState = setStateCallback as SetStateFunction<
-      DerivedState<TConfig>
-    >;
+    // Writes made by actions are attributed to the action and its caller
+    const setStateForCall: SetStateForCall<DerivedState<TConfig>> = (call) =>
+      ((state: any, key?: string) =>
+        this.write(state, key, this.actionSource(call))) as SetStateFunction<
+        DerivedState<TConfig>
+      >;
 
     // Initialize RPC with actions
     const actions = this.extractActions(config);
 
     const stateGetter = () => {
-      const currentState = this.get();
+      const currentState = this.read();
       return currentState;
     };
 
+    // Atomic actions write through a transaction instead of setState
+    const transactionForCall: TransactionRunner<DerivedState<TConfig>> = (
+      callback,
+      call
+    ) =>
+      this.runTransaction(
+        (tx) =>
+          callback(tx.get(), (async (state: any, key?: string) => {
+            if (key !== undefined) {
+              tx.set(state, key);
+            } else {
+              tx.set(state);
+            }
+          }) as SetStateFunction<DerivedState<TConfig>>),
+        call ? this.actionSource(call) : { cause: "action" }
+      );
+
     this.rpcEndpoint = createCrannRPCAdapter(
       stateGetter,
       actions,
       this.porter,
-      genericSetState
+      setStateForCall,
+      this.codec,
+      transactionForCall,
+      // Actions should see, and write over, the hydrated state
+      this.hydrated
     );
   }
 
@@ -174,24 +518,60 @@ export class Crann<TConfig extends AnyConfig> {
     config: TConfig,
     options?: CrannOptions
   ): Crann<TConfig> {
-    if (!Crann.instance) {
-      Crann.instance = new Crann(config, options);
+    const name = options?.name ?? DEFAULT_STORE_NAME;
+    let instance = Crann.instances.get(name);
+    if (!instance) {
+      instance = new Crann(config, options);
+      Crann.instances.set(name, instance);
     }
-    return Crann.instance;
+    return instance;
+  }
+
+  /**
+   * Resolves once state has been hydrated from storage. Reads made before
+   * then only see the config defaults; writes and actions wait for it.
+   */
+  public ready(): Promise<void> {
+    return this.hydrated;
   }
 
   /**
    * Add an instance to the Crann instance.
-   * @param key The key of the instance to add.
+   * @param info The agent the instance belongs to.
    * @param agentTag The tag of the agent that is adding the instance, for logging.
    */
-  private async addInstance(key: string, agentTag: string): Promise<void> {
+  private async addInstance(info: AgentInfo, agentTag: string): Promise<void> {
+    const key = info.id;
     if (!this.instances.has(key)) {
       // this.logger.withTag(agentTag).log("Adding instance from agent key");
+      // An agent reconnecting within the grace period picks up where it
+      // left off
+      const location = getLocationKey(info.location);
+      const agent = this.porter.getAgentById(key);
+      const url = agent ? getInstanceKey(agent, InstanceKey.Url) : undefined;
+      this.instanceLocations.set(key, { key: location, url });
+      let departed = this.departed.get(location);
+      // A different page loaded in the same tab and frame is a new instance,
+      // not a reconnect
+      if (departed && departed.url !== url) {
+        this.expireDeparted(location);
+        departed = undefined;
+      }
+      if (departed) {
+        clearTimeout(departed.timer);
+        this.departed.delete(location);
+      }
       const initialInstanceState = {
         ...this.defaultInstanceState,
+        ...(departed
+          ? departed.state
+          : this.resumeInstance(key) ?? this.loadInstance(key)),
       } as DerivedInstanceState<TConfig>;
-      this.instances.set(key, initialInstanceState);
+      this.instances.set(key, {
+        ...initialInstanceState,
+        ...this.computeInstance(key, initialInstanceState),
+      });
+      this.checkpoint();
     }
 
     // else {
@@ -201,10 +581,38 @@ export class Crann<TConfig extends AnyConfig> {
     // }
   }
 
-  private async removeInstance(key: string): Promise<void> {
-    if (this.instances.has(key)) {
+  private async removeInstance(info: AgentInfo): Promise<void> {
+    const key = info.id;
+    const state = this.instances.get(key);
+    if (state) {
       // this.logger.withTag(key).log("Remove instance requested");
+      const url = this.instanceLocations.get(key)?.url;
       this.instances.delete(key);
+      this.instanceLocations.delete(key);
+      this.interests.delete(key);
+      // If the agent reconnects, it needs its initial state again
+      this.agentsInitialized.delete(key);
+      this.notifyInstanceDisconnected(key, info, state);
+
+      if (this.reconnectGracePeriod <= 0) {
+        this.shared.origin.delete(getOpaqueOriginKey(info.location));
+        this.notifyInstanceRemoved(key, info, state);
+        this.checkpoint();
+        return;
+      }
+      const location = getLocationKey(info.location);
+      this.expireDeparted(location);
+      this.departed.set(location, {
+        id: key,
+        agent: info,
+        url,
+        state,
+        timer: setTimeout(
+          () => this.expireDeparted(location),
+          this.reconnectGracePeriod
+        ),
+      });
+      this.checkpoint();
     }
     //  else {
     //   this.logger
@@ -213,18 +621,144 @@ export class Crann<TConfig extends AnyConfig> {
     // }
   }
 
+  // Stops waiting for a departed instance's agent to reconnect
+  private expireDeparted(location: string): void {
+    const departed = this.departed.get(location);
+    if (!departed) return;
+    clearTimeout(departed.timer);
+    this.departed.delete(location);
+    // An opaque origin's state belongs to its instance
+    this.shared.origin.delete(getOpaqueOriginKey(departed.agent.location));
+    this.notifyInstanceRemoved(
+      departed.id,
+      departed.agent,
+      departed.state as DerivedInstanceState<TConfig>
+    );
+    this.checkpoint();
+  }
+
+  /**
+   * Saves the state of every instance to session storage, along with
+   * whether its agent has been sent its initial state. After the service
+   * worker restarts, agents reconnecting from the same context, tab, frame
+   * and URL are given their instance back.
+   */
+  private checkpoint(): void {
+    if (!browser.storage?.session) return;
+    const entries: Record<string, CheckpointEntry> = {};
+    // Saved before the last restart, and not yet reconnected
+    this.restored.forEach((entry, location) => {
+      entries[location] = entry;
+    });
+    this.departed.forEach((departed, location) => {
+      entries[location] = {
+        id: departed.id,
+        agent: departed.agent,
+        url: departed.url,
+        state: this.encodeInstance(departed.state),
+        initialized: this.agentsInitialized.has(departed.id),
+      };
+    });
+    this.instances.forEach((state, key) => {
+      const location = this.instanceLocations.get(key);
+      const agent = this.porter.getAgentById(key)?.info;
+      if (!location || !agent) return;
+      entries[location.key] = {
+        id: key,
+        agent,
+        url: location.url,
+        state: this.encodeInstance(state),
+        initialized: this.agentsInitialized.has(key),
+      };
+    });
+    this.persistScheduler.schedule(
+      Persistence.Session,
+      { [this.storagePrefix + CHECKPOINT_KEY]: entries },
+      { debounce: CHECKPOINT_DEBOUNCE }
+    );
+  }
+
+  // An instance's own items, encoded for storage. Computed items are left
+  // out, as they are worked out again when the instance is restored.
+  private encodeInstance(state: Record<string, any>): Record<string, any> {
+    const own: Record<string, any> = {};
+    for (const key in this.defaultInstanceState) {
+      if (key in state) {
+        own[key] = state[key];
+      }
+    }
+    return encodeState(this.config, own, this.codec);
+  }
+
+  private async restoreCheckpoint(): Promise<void> {
+    if (!browser.storage?.session) return;
+    const key = this.storagePrefix + CHECKPOINT_KEY;
+    try {
+      const stored = await this.adapters[Persistence.Session].get([key]);
+      const entries: Record<string, CheckpointEntry> = stored[key] ?? {};
+      Object.keys(entries).forEach((location) => {
+        this.restored.set(location, entries[location]);
+      });
+      // Agents that haven't come back by now, e.g. because their tab was
+      // closed while the service worker was stopped, never will
+      if (this.restored.size > 0) {
+        setTimeout(() => {
+          this.restored.forEach((_, location) => this.dropRestored(location));
+        }, Math.max(this.reconnectGracePeriod, RESTORE_TIMEOUT));
+      }
+    } catch (error) {
+      Logger.forContext("Core").warn("Failed to restore instances:", error);
+    }
+  }
+
+  // The state an instance had before the service worker restarted, if its
+  // agent was saved at the same location and URL
+  private resumeInstance(
+    key: string
+  ): Partial<DerivedInstanceState<TConfig>> | undefined {
+    const location = this.instanceLocations.get(key);
+    if (!location) return undefined;
+    const entry = this.restored.get(location.key);
+    if (!entry) return undefined;
+    // A different page has loaded there since
+    if (entry.url !== location.url) {
+      this.dropRestored(location.key);
+      return undefined;
+    }
+    this.restored.delete(location.key);
+    if (entry.initialized) {
+      this.resumed.add(key);
+    }
+    return decodeState(this.config, entry.state, this.codec) as Partial<
+      DerivedInstanceState<TConfig>
+    >;
+  }
+
+  // Gives up on an instance saved before a restart
+  private dropRestored(location: string): void {
+    const entry = this.restored.get(location);
+    if (!entry) return;
+    this.restored.delete(location);
+    this.notifyInstanceRemoved(
+      entry.id,
+      entry.agent,
+      decodeState(
+        this.config,
+        entry.state,
+        this.codec
+      ) as DerivedInstanceState<TConfig>
+    );
+    this.checkpoint();
+  }
+
   @trackStateChange
   public async setServiceState(
     state: Partial<DerivedServiceState<TConfig>>
   ): Promise<void> {
     // this.logger.log("Request to set service state with update:", state);
     // this.logger.log("Existing service state was ", this.serviceState);
-    const update = { ...this.serviceState, ...state };
-    if (!deepEqual(this.serviceState, update)) {
-      this.serviceState = update;
-      await this.persist(state);
-      this.notify(state as StateChanges<TConfig>);
-    }
+    await this.hydrated;
+    await this.commit(state, new Map(), { source: { cause: "setState" } });
   }
 
   @trackStateChange
@@ -235,83 +769,1193 @@ export class Crann<TConfig extends AnyConfig> {
     // this.logger
     //   .withTag(key)
     //   .log("Request to update instance state, update:", state);
-    const currentState = this.instances.get(key) || this.defaultInstanceState;
-    const update = { ...currentState, ...state };
-    if (!deepEqual(currentState, update)) {
-      this.instances.set(key, update);
-      this.notify(state as StateChanges<TConfig>, key);
+    await this.hydrated;
+    await this.commit({}, new Map([[key, state]]), {
+      source: { cause: "setState" },
+    });
+  }
+
+  /**
+   * Runs a callback that can read and write state through `tx`, then applies
+   * everything it wrote in one go: state is updated together, persisted once
+   * and each agent receives a single stateUpdate. If the callback throws,
+   * none of its writes are applied.
+   * Reads through `tx` see the transaction's own writes, but computed items
+   * are only re-evaluated when it commits.
+   */
+  public transaction<TResult>(
+    callback: (tx: Transaction<TConfig>) => Promise<TResult> | TResult
+  ): Promise<TResult> {
+    return this.runTransaction(callback, { cause: "setState" });
+  }
+
+  private async runTransaction<TResult>(
+    callback: (tx: Transaction<TConfig>) => Promise<TResult> | TResult,
+    source: ChangeSource
+  ): Promise<TResult> {
+    // Hydration would overwrite anything committed before it finishes
+    await this.hydrated;
+    const service: Partial<DerivedServiceState<TConfig>> = {};
+    const instances = new Map<string, Partial<DerivedInstanceState<TConfig>>>();
+    const writes: Array<[Record<string, any>, WriteContext]> = [];
+
+    const tx = {
+      get: (key?: string) => ({
+        ...this.serviceState,
+        ...service,
+        ...(key ? this.sharedStateOf(key) : {}),
+        ...(key ? this.instances.get(key) : {}),
+        ...(key ? instances.get(key) : {}),
+      }),
+      set: (state: Record<string, any>, key?: string) => {
+        // A refused write throws, abandoning the whole transaction
+        const context = this.writeContext(source, key);
+        state = this.beforeSet(state, context);
+        writes.push([state, context]);
+        const split = this.splitState(state);
+        Object.assign(service, split.service);
+        if (key && Object.keys(split.instance).length > 0) {
+          instances.set(key, { ...instances.get(key), ...split.instance });
+        }
+      },
+    } as Transaction<TConfig>;
+
+    const result = await callback(tx);
+    await this.commit(service, instances, { source });
+    writes.forEach(([state, context]) => this.afterSet(state, context));
+    return result;
+  }
+
+  /**
+   * Applies service and instance updates together. Every change is in place
+   * before listeners and agents are notified, and each agent gets at most
+   * one stateUpdate covering its instance, tab, window and service changes.
+   * Instance updates may include tab and window items, which are written to
+   * the state shared with the rest of that instance's tab or window.
+   * `source` says where the changes came from, for their metadata.
+   */
+  private async commit(
+    service: Partial<DerivedServiceState<TConfig>>,
+    instances: Map<string, Partial<DerivedInstanceState<TConfig>>>,
+    { persist = true, source }: { persist?: boolean; source: ChangeSource }
+  ): Promise<void> {
+    const serviceChanges = this.diff(this.serviceState, service);
+    const serviceComputed = recompute(
+      this.config,
+      this.computed,
+      Partition.Service,
+      { ...this.serviceState, ...serviceChanges },
+      Object.keys(serviceChanges)
+    );
+    const allServiceChanges = { ...serviceChanges, ...serviceComputed };
+    const serviceKeys = Object.keys(allServiceChanges);
+
+    // Sort instance updates into the instance's own items and the tab and
+    // window items it shares with other instances
+    const own = new Map<string, Partial<DerivedInstanceState<TConfig>>>();
+    const sharedChanges: SharedState = emptySharedState();
+    instances.forEach((state, key) => {
+      const ownState: Record<string, any> = {};
+      for (const itemKey in state) {
+        const partition = this.sharedPartitionOf(itemKey);
+        if (!partition) {
+          ownState[itemKey] = state[itemKey];
+          continue;
+        }
+        const sharedKey = this.sharedKeyOf(partition, key);
+        if (sharedKey === undefined) continue;
+        sharedChanges[partition].set(sharedKey, {
+          ...sharedChanges[partition].get(sharedKey),
+          [itemKey]: state[itemKey],
+        });
+      }
+      own.set(key, ownState as Partial<DerivedInstanceState<TConfig>>);
+    });
+    SHARED_PARTITIONS.forEach((partition) => {
+      sharedChanges[partition].forEach((update, sharedKey) => {
+        const changes = this.diff(
+          {
+            ...this.defaultSharedState,
+            ...this.shared[partition].get(sharedKey),
+          },
+          update
+        );
+        if (Object.keys(changes).length > 0) {
+          sharedChanges[partition].set(sharedKey, changes);
+        } else {
+          sharedChanges[partition].delete(sharedKey);
+        }
+      });
+    });
+
+    // Per-instance computed items can depend on service state too, so any
+    // service change may touch every instance
+    const nextServiceState = { ...this.serviceState, ...allServiceChanges };
+    const ownChanges = new Map<
+      string,
+      Partial<DerivedInstanceState<TConfig>>
+    >();
+    const instanceChanges = new Map<
+      string,
+      Partial<DerivedInstanceState<TConfig>>
+    >();
+    const affected = new Set(instances.keys());
+    this.instances.forEach((_, key) => {
+      if (
+        serviceKeys.length > 0 ||
+        Object.keys(this.sharedFor(key, sharedChanges)).length > 0
+      ) {
+        affected.add(key);
+      }
+    });
+    for (const key of affected) {
+      const current = this.instances.get(key) || this.defaultInstanceState;
+      const changes = this.diff(current, own.get(key) ?? {});
+      const shared = this.sharedFor(key, sharedChanges);
+      const computed = recompute(
+        this.config,
+        this.computed,
+        Partition.Instance,
+        {
+          ...nextServiceState,
+          ...this.sharedStateOf(key),
+          ...shared,
+          ...current,
+          ...changes,
+        },
+        [...serviceKeys, ...Object.keys(shared), ...Object.keys(changes)]
+      );
+      if (Object.keys(changes).length + Object.keys(computed).length > 0) {
+        ownChanges.set(key, { ...changes, ...computed });
+      }
+      if (
+        Object.keys(changes).length +
+          Object.keys(computed).length +
+          Object.keys(shared).length >
+        0
+      ) {
+        instanceChanges.set(key, { ...shared, ...changes, ...computed });
+      }
+    }
+
+    if (serviceKeys.length === 0 && instanceChanges.size === 0) return;
+
+    // Only writes are steps to undo, not values arriving from storage, lazy
+    // loads or expiry
+    if (
+      this.history &&
+      !this.replayingHistory &&
+      HISTORY_CAUSES.includes(source.cause)
+    ) {
+      this.recordHistory(this.serviceState, serviceChanges);
+    }
+    // What agents hold before the changes, for patches to be made against
+    const previous: PreviousState = {
+      service: this.serviceState,
+      instances: new Map(),
+    };
+    instanceChanges.forEach((_, key) => {
+      previous.instances.set(key, this.stateOf(key));
+    });
+
+    this.serviceState = nextServiceState;
+    this.trackExpiry(serviceChanges, previous.service);
+    // A value written to a lazy item that hasn't loaded stands in for
+    // loading it
+    if (source.cause !== "expire") {
+      for (const key in serviceChanges) {
+        const status = this.loadStatus[key]?.status;
+        if (
+          (status === "idle" || status === "error") &&
+          serviceChanges[key] !== undefined
+        ) {
+          this.loads.delete(key);
+          this.setLoadStatus(key, { status: "loaded" });
+        }
+      }
+    }
+    ownChanges.forEach((changes, key) => {
+      const current = this.instances.get(key) || this.defaultInstanceState;
+      this.instances.set(key, { ...current, ...changes });
+    });
+    SHARED_PARTITIONS.forEach((partition) => {
+      sharedChanges[partition].forEach((changes, sharedKey) => {
+        this.shared[partition].set(sharedKey, {
+          ...this.shared[partition].get(sharedKey),
+          ...changes,
+        });
+      });
+    });
+
+    if (persist) {
+      this.persist(serviceChanges);
+      this.persistInstances(ownChanges);
+      this.persistOrigins(sharedChanges.origin);
+    }
+    if (ownChanges.size > 0) {
+      this.checkpoint();
+    }
+    this.notify(
+      allServiceChanges as StateChanges<TConfig>,
+      instanceChanges as Map<string, StateChanges<TConfig>>,
+      this.stamp(source),
+      previous
+    );
+  }
+
+  // Stamps a change with the time and the next sequence number
+  private stamp(source: ChangeSource): ChangeMetadata {
+    return { ...source, timestamp: Date.now(), seq: ++this.seq };
+  }
+
+  // Attributes a change to the agent that made it, if any
+  private sourceFrom(cause: ChangeCause, agent?: AgentInfo): ChangeSource {
+    return agent
+      ? { cause, agentId: agent.id, context: agent.location.context }
+      : { cause };
+  }
+
+  private actionSource(call: ActionCall): ChangeSource {
+    const agent = this.porter.queryAgents(call.target)[0]?.info;
+    return {
+      ...this.sourceFrom("action", agent),
+      context: call.target.context,
+      action: call.action,
+    };
+  }
+
+  // The subset of `update` whose values differ from `current`
+  private diff<T extends Record<string, any>>(
+    current: T,
+    update: Partial<T>
+  ): Partial<T> {
+    const changes: Partial<T> = {};
+    for (const key in update) {
+      if (!deepEqual(current[key], update[key])) {
+        changes[key] = update[key];
+      }
+    }
+    return changes;
+  }
+
+  // Evaluates the per-instance computed items for one instance's state
+  private computeInstance(
+    key: string,
+    state: Partial<DerivedInstanceState<TConfig>>,
+    changed?: string[]
+  ): Partial<DerivedInstanceState<TConfig>> {
+    return recompute(
+      this.config,
+      this.computed,
+      Partition.Instance,
+      { ...this.serviceState, ...this.sharedStateOf(key), ...state },
+      changed
+    ) as Partial<DerivedInstanceState<TConfig>>;
+  }
+
+  // The shared partition (tab, window or origin) an item belongs to, if any
+  private sharedPartitionOf(key: string): SharedPartition | undefined {
+    const item = this.config[key];
+    if (!isConfigItem(item)) return undefined;
+    return SHARED_PARTITIONS.find((partition) => partition === item.partition);
+  }
+
+  // The tab, window or origin an instance is in
+  private sharedKeyOf(
+    partition: SharedPartition,
+    key: string
+  ): string | undefined {
+    const agent = this.porter.getAgentById(key);
+    return agent ? getSharedKey(agent, partition) : undefined;
+  }
+
+  // An instance's entries from per-partition maps of shared state
+  private sharedFor(key: string, shared: SharedState): Record<string, any> {
+    const state: Record<string, any> = {};
+    SHARED_PARTITIONS.forEach((partition) => {
+      const sharedKey = this.sharedKeyOf(partition, key);
+      if (sharedKey !== undefined) {
+        Object.assign(state, shared[partition].get(sharedKey));
+      }
+    });
+    return state;
+  }
+
+  // The tab, window and origin state an instance sees
+  private sharedStateOf(key: string): Record<string, any> {
+    return { ...this.defaultSharedState, ...this.sharedFor(key, this.shared) };
+  }
+
+  // If we pass in specific state to persist, it only persists that state.
+  // Otherwise persists all of the worker state.
+  // Writes are queued and batched; use flush() to force them out.
+  private persist(state?: Partial<DerivedServiceState<TConfig>>): void {
+    for (const key in state || this.serviceState) {
+      const item = this.config[key] as ConfigItem<any>;
+      const area = this.storageAreaOf(item);
+      if (!area) continue;
+      const value = state
+        ? state[key as keyof DerivedServiceState<TConfig>]
+        : this.serviceState[key];
+      this.persistScheduler.schedule(
+        area,
+        this.toStorageItems(key, value),
+        { debounce: item.debounce, maxWait: item.maxWait }
+      );
+    }
+  }
+
+  // The name of the adapter an item is persisted with, if it is persisted
+  private storageAreaOf(item: ConfigItem<any>): string | undefined {
+    if (item.partition === Partition.Instance && !item.persistBy) {
+      return undefined;
+    }
+    // Tab and window state only lasts as long as the tab or window
+    if (
+      item.partition === Partition.Tab ||
+      item.partition === Partition.Window
+    ) {
+      return undefined;
+    }
+    if (item.adapter) return item.adapter;
+    return item.persist && item.persist !== Persistence.None
+      ? item.persist
+      : undefined;
+  }
+
+  // Saves the changed values of persisted instance items under each
+  // instance's key
+  private persistInstances(
+    changes: Map<string, Partial<DerivedInstanceState<TConfig>>>
+  ): void {
+    const now = Date.now();
+    const dirty = new Set<string>();
+    changes.forEach((state, instanceId) => {
+      const agent = this.porter.getAgentById(instanceId);
+      if (!agent) return;
+      for (const key in state) {
+        const records = this.instanceRecords.get(key);
+        if (!records) continue;
+        const item = this.config[key] as ConfigItem<any>;
+        const instanceKey = getInstanceKey(agent, item.persistBy!);
+        if (instanceKey === undefined) continue;
+        records.set(instanceKey, { value: state[key], touchedAt: now });
+        dirty.add(key);
+      }
+    });
+    dirty.forEach((key) => this.persistInstanceRecord(key));
+  }
+
+  // Saves changed origin state under each origin
+  private persistOrigins(changes: Map<string, Record<string, any>>): void {
+    const now = Date.now();
+    const dirty = new Set<string>();
+    changes.forEach((state, origin) => {
+      // Nothing could pick up an opaque origin's state again
+      if (isOpaqueOriginKey(origin)) return;
+      for (const key in state) {
+        const records = this.instanceRecords.get(key);
+        if (!records) continue;
+        records.set(origin, { value: state[key], touchedAt: now });
+        dirty.add(key);
+      }
+    });
+    dirty.forEach((key) => this.persistInstanceRecord(key));
+  }
+
+  // Drops stale entries from an item's instance records and queues the rest
+  // to be written
+  private persistInstanceRecord(key: string): void {
+    const item = this.config[key] as ConfigItem<any>;
+    const records = this.instanceRecords.get(key)!;
+    const now = Date.now();
+    records.forEach((record, instanceKey) => {
+      if (item.maxAge !== undefined && now - record.touchedAt > item.maxAge) {
+        records.delete(instanceKey);
+      }
+    });
+    if (item.maxEntries !== undefined && records.size > item.maxEntries) {
+      Array.from(records.entries())
+        .sort(([, a], [, b]) => b.touchedAt - a.touchedAt)
+        .slice(item.maxEntries)
+        .forEach(([instanceKey]) => records.delete(instanceKey));
+    }
+
+    const encoded: Record<string, InstanceRecord> = {};
+    records.forEach((record, instanceKey) => {
+      encoded[instanceKey] = {
+        value: encodeValue(item, record.value, this.codec),
+        touchedAt: record.touchedAt,
+      };
+    });
+    const items: Record<string, any> = { [this.storagePrefix + key]: encoded };
+    if (item.version !== undefined) {
+      items[this.storagePrefix + key + VERSION_SUFFIX] = item.version;
+    }
+    this.persistScheduler.schedule(this.storageAreaOf(item)!, items, {
+      debounce: item.debounce,
+      maxWait: item.maxWait,
+    });
+  }
+
+  // The saved state of earlier agents with the same instance key as this
+  // one, for each persisted instance item
+  private loadInstance(
+    instanceId: string
+  ): Partial<DerivedInstanceState<TConfig>> {
+    const state: Record<string, any> = {};
+    const agent = this.porter.getAgentById(instanceId);
+    if (!agent) return state as Partial<DerivedInstanceState<TConfig>>;
+
+    const now = Date.now();
+    this.instanceRecords.forEach((records, key) => {
+      const item = this.config[key] as ConfigItem<any>;
+      const instanceKey = getInstanceKey(
+        agent,
+        item.persistBy ?? InstanceKey.Origin
+      );
+      const record =
+        instanceKey !== undefined ? records.get(instanceKey) : undefined;
+      if (!record) return;
+      if (item.maxAge !== undefined && now - record.touchedAt > item.maxAge) {
+        return;
+      }
+      // Being picked up again counts as use, for eviction
+      record.touchedAt = now;
+      this.persistInstanceRecord(key);
+      // Origin state is already in its origin's shared state
+      if (item.partition === Partition.Instance) {
+        state[key] = record.value;
+      }
+    });
+    return state as Partial<DerivedInstanceState<TConfig>>;
+  }
+
+  private async writeStorage(
+    area: string,
+    items: Record<string, any>
+  ): Promise<void> {
+    this.rememberWrites(area, items);
+    if (area === Persistence.Sync) {
+      await this.writeSync(items);
+      return;
+    }
+    try {
+      await this.adapters[area].set(items);
+    } catch (error) {
+      const keys = new Set(Object.keys(items).map((k) => this.toConfigKey(k)));
+      keys.forEach((key) => this.notifyStorageError({ key, area, error }));
+    }
+  }
+
+  // storage.sync has tight quotas. Rather than failing the write, items that
+  // allow it fall back to local storage, and every failure is reported
+  // through onStorageError.
+  private async writeSync(items: Record<string, any>): Promise<void> {
+    try {
+      await this.adapters[Persistence.Sync].set(items);
+    } catch (error) {
+      const fallback: Record<string, any> = {};
+      const failed = new Map<string, boolean>();
+      for (const storageKey in items) {
+        const key = this.toConfigKey(storageKey);
+        const item = this.config[key] as ConfigItem<any>;
+        const fallsBack = item.syncFallback === Persistence.Local;
+        if (fallsBack) {
+          fallback[storageKey] = items[storageKey];
+        }
+        failed.set(key, fallsBack);
+      }
+
+      if (Object.keys(fallback).length > 0) {
+        try {
+          await this.adapters[Persistence.Local].set(fallback);
+          // Drop the outdated synced copy so it can't win on the next hydrate
+          await this.adapters[Persistence.Sync].remove(Object.keys(fallback));
+          Object.keys(fallback).forEach((key) => this.localFallbacks.add(key));
+        } catch {
+          // The values weren't reliably kept anywhere after all
+          Object.keys(fallback).forEach((storageKey) =>
+            failed.set(this.toConfigKey(storageKey), false)
+          );
+        }
+      }
+
+      failed.forEach((fallsBack, key) => {
+        this.notifyStorageError({
+          key,
+          area: Persistence.Sync,
+          error,
+          fallback: fallsBack ? Persistence.Local : undefined,
+        });
+      });
+      return;
+    }
+
+    // Items that are back in sync no longer need their local copy
+    const recovered = Object.keys(items).filter((key) =>
+      this.localFallbacks.has(key)
+    );
+    if (recovered.length > 0) {
+      recovered.forEach((key) => this.localFallbacks.delete(key));
+      try {
+        await this.adapters[Persistence.Local].remove(recovered);
+      } catch (error) {
+        recovered.forEach((storageKey) =>
+          this.notifyStorageError({
+            key: this.toConfigKey(storageKey),
+            area: Persistence.Local,
+            error,
+          })
+        );
+      }
+    }
+  }
+
+  private rememberWrites(area: string, items: Record<string, any>): void {
+    // Only adapters that report changes can echo our writes back to us
+    if (!this.adapters[area].subscribe) return;
+    for (const key in items) {
+      this.written.set(key, JSON.stringify(items[key]));
+    }
+  }
+
+  // Listens for writes to persisted items made outside this hub, such as an
+  // options page writing to storage.local directly
+  private watchStorage(): void {
+    Object.keys(this.adapters).forEach((area) => {
+      this.adapters[area].subscribe?.((keys) => {
+        const ours = keys.filter((key) => key.startsWith(this.storagePrefix));
+        if (ours.length === 0) return;
+        this.hydrated
+          .then(() => this.applyStorageChanges(area, ours))
+          .catch((error) => {
+            Logger.forContext("Core").error(
+              `Failed to apply ${area} storage changes:`,
+              error
+            );
+          });
+      });
+    });
+  }
+
+  // Re-reads items changed in storage and merges them into state, skipping
+  // echoes of our own writes and items we are about to overwrite anyway
+  private async applyStorageChanges(
+    area: string,
+    storageKeys: string[]
+  ): Promise<void> {
+    const keys = Array.from(
+      new Set(
+        storageKeys
+          // Other stores' items
+          .filter((key) => key.startsWith(this.storagePrefix))
+          .map((key) => this.toConfigKey(key))
+      )
+    ).filter((key) => {
+      const item = this.config[key];
+      return (
+        key in this.defaultServiceState &&
+        isStateItem(item) &&
+        this.storageAreaOf(item) === area
+      );
+    });
+    if (keys.length === 0) return;
+
+    const stored = await this.adapters[area].get(
+      keys.reduce<string[]>(
+        (acc, key) =>
+          acc.concat(
+            this.storagePrefix + key,
+            this.storagePrefix + key + VERSION_SUFFIX,
+            this.storagePrefix + key + EXPIRES_SUFFIX
+          ),
+        []
+      )
+    );
+
+    const update: Partial<DerivedServiceState<TConfig>> = {};
+    const migrated: Partial<DerivedServiceState<TConfig>> = {};
+    const expiries: Record<string, Expiry> = {};
+    for (const key of keys) {
+      const storageKey = this.storagePrefix + key;
+      const stateKey = key as keyof DerivedServiceState<TConfig>;
+      if (this.persistScheduler.isPending(area, storageKey)) continue;
+
+      if (!(storageKey in stored)) {
+        // Removed from sync because the value now lives in local storage
+        if (this.localFallbacks.has(storageKey)) continue;
+        // Removed by someone else, e.g. storage.local.clear()
+        this.written.delete(storageKey);
+        update[stateKey] = this.defaultServiceState[stateKey];
+        continue;
+      }
+
+      const raw = JSON.stringify(stored[storageKey]);
+      if (raw === this.written.get(storageKey)) continue;
+      this.written.set(storageKey, raw);
+
+      const loaded = this.loadStoredValue(
+        key,
+        stored[storageKey],
+        stored[storageKey + VERSION_SUFFIX]
+      );
+      if (!loaded) continue;
+      update[stateKey] = loaded.value;
+      if (loaded.migrated) {
+        migrated[stateKey] = loaded.value;
+      }
+      if (stored[storageKey + EXPIRES_SUFFIX]) {
+        expiries[key] = stored[storageKey + EXPIRES_SUFFIX];
+      }
+    }
+
+    // Already in storage, so only migrated values need writing back
+    await this.commit(update, new Map(), {
+      persist: false,
+      source: { cause: "storage" },
+    });
+    // Keep the expiry stored with the value rather than restarting it
+    if (Object.keys(expiries).length > 0) {
+      Object.assign(this.expiries, expiries);
+      this.scheduleExpiry();
+    }
+    if (Object.keys(migrated).length > 0) {
+      this.persist(migrated);
+    }
+  }
+
+  // Maps a storage key (prefixed, possibly a version or expiry key) to its
+  // config key
+  private toConfigKey(storageKey: string): string {
+    const key = this.removePrefix(storageKey);
+    const suffix = [VERSION_SUFFIX, EXPIRES_SUFFIX].find((suffix) =>
+      key.endsWith(suffix)
+    );
+    return suffix ? key.slice(0, -suffix.length) : key;
+  }
+
+  /**
+   * Writes any persisted changes still waiting on their debounce.
+   */
+  public flush(): Promise<void> {
+    return this.persistScheduler.flush();
+  }
+
+  // Builds the storage entries for a value, including its schema version
+  // when the item is versioned.
+  private toStorageItems(key: string, value: any): Record<string, any> {
+    const item = this.config[key] as ConfigItem<any>;
+    const items: Record<string, any> = {
+      [this.storagePrefix + key]: encodeValue(item, value, this.codec),
+    };
+    if (item.version !== undefined) {
+      items[this.storagePrefix + key + VERSION_SUFFIX] = item.version;
+    }
+    if (item.ttl !== undefined || item.entryTtl !== undefined) {
+      items[this.storagePrefix + key + EXPIRES_SUFFIX] =
+        this.expiries[key] ?? {};
+    }
+    return items;
+  }
+
+  public undo(): Promise<void> {
+    return this.replayHistory("undo");
+  }
+
+  public redo(): Promise<void> {
+    return this.replayHistory("redo");
+  }
+
+  public canUndo(): boolean {
+    return this.historyStatus.canUndo;
+  }
+
+  public canRedo(): boolean {
+    return this.historyStatus.canRedo;
+  }
+
+  private recordHistory(
+    previous: DerivedServiceState<TConfig>,
+    next: Partial<DerivedServiceState<TConfig>>
+  ): void {
+    const keys = Object.keys(next).filter(
+      (key) =>
+        (!this.historyKeys || this.historyKeys.has(key)) &&
+        !deepEqual(previous[key], next[key])
+    );
+    if (keys.length === 0) return;
+
+    const before: Record<string, any> = {};
+    const after: Record<string, any> = {};
+    keys.forEach((key) => {
+      before[key] = previous[key];
+      after[key] = next[key];
+    });
+    this.history!.record(before, after);
+    this.notifyHistoryChange();
+  }
+
+  // Agents may only undo or redo steps made up of keys they could write
+  private async replayHistory(
+    direction: "undo" | "redo",
+    agent?: AgentInfo
+  ): Promise<void> {
+    if (!this.history) return;
+    const pending =
+      direction === "undo"
+        ? this.history.peekUndo()
+        : this.history.peekRedo();
+    if (!pending) return;
+
+    if (agent) {
+      const forbidden = Object.keys(pending).filter((key) =>
+        this.getWriteError(key, agent)
+      );
+      if (forbidden.length > 0) {
+        this.rejectWrite({
+          keys: forbidden,
+          reason: `Cannot ${direction} changes this agent could not write`,
+          agent,
+        });
+        return;
+      }
+    }
+
+    const state =
+      direction === "undo" ? this.history.undo() : this.history.redo();
+    this.replayingHistory = true;
+    const update = this.commit(
+      state as Partial<DerivedServiceState<TConfig>>,
+      new Map(),
+      { source: this.sourceFrom(direction, agent) }
+    );
+    this.replayingHistory = false;
+    this.notifyHistoryChange();
+    await update;
+  }
+
+  private notifyHistoryChange(): void {
+    if (!this.history) return;
+    const status = this.history.getStatus();
+    if (deepEqual(status, this.historyStatus)) return;
+    this.historyStatus = status;
+    this.instances.forEach((_, key) => {
+      this.porter.post({ action: "historyUpdate", payload: status }, key);
+    });
+  }
+
+  /**
+   * Resolves with a lazy item's value, loading it first if that hasn't been
+   * done yet. Loads already in progress are shared. A failed load can be
+   * tried again.
+   */
+  public load<K extends keyof DerivedState<TConfig>>(
+    key: K
+  ): Promise<DerivedState<TConfig>[K]> {
+    const itemKey = key as string;
+    const item = this.config[itemKey];
+    if (!item || !isLazyItem(item)) {
+      return Promise.resolve(this.read()[key]);
+    }
+    const pending = this.loads.get(itemKey);
+    if (pending) return pending;
+
+    const loading = this.hydrated.then(async () => {
+      // Restored from storage, or loaded while we waited for hydration
+      if (this.loadStatus[itemKey].status === "loaded") {
+        return this.read()[key];
+      }
+      this.setLoadStatus(itemKey, { status: "loading" });
+      try {
+        const value = await item.load();
+        const loaded: Partial<DerivedServiceState<TConfig>> = {};
+        loaded[itemKey as keyof DerivedServiceState<TConfig>] = value;
+        await this.commit(loaded, new Map(), { source: { cause: "load" } });
+        this.setLoadStatus(itemKey, { status: "loaded" });
+        return value;
+      } catch (error) {
+        this.loads.delete(itemKey);
+        this.setLoadStatus(itemKey, {
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    });
+    this.loads.set(itemKey, loading);
+    return loading;
+  }
+
+  public getLoadStatus(key: keyof DerivedState<TConfig>): LoadStatus {
+    return this.loadStatus[key as string] ?? { status: "loaded" };
+  }
+
+  // Starts loading any of `keys` that are lazy. Failures are reported
+  // through the load status rather than thrown.
+  private requestLoad(keys: string[]): void {
+    keys
+      .filter((key) => key in this.loadStatus)
+      .forEach((key) => {
+        this.load(key).catch((error) => {
+          Logger.forContext("Core").error(`Failed to load "${key}":`, error);
+        });
+      });
+  }
+
+  private setLoadStatus(key: string, status: LoadStatus): void {
+    this.loadStatus = { ...this.loadStatus, [key]: status };
+    this.instances.forEach((_, instanceKey) => {
+      this.porter.post(
+        { action: "loadStatus", payload: { [key]: status } },
+        instanceKey
+      );
+    });
+  }
+
+  // Restamps the expiry of changed items that have a ttl
+  private trackExpiry(
+    changes: Record<string, any>,
+    previous: Record<string, any>
+  ): void {
+    const now = Date.now();
+    let tracked = false;
+    for (const key in changes) {
+      const item = this.config[key];
+      if (!isStateItem(item)) continue;
+      if (item.ttl === undefined && item.entryTtl === undefined) continue;
+      tracked = true;
+      if (deepEqual(changes[key], this.defaultServiceState[key])) {
+        delete this.expiries[key];
+        continue;
+      }
+      this.expiries[key] = stampExpiry(
+        item,
+        previous[key],
+        changes[key],
+        this.expiries[key],
+        now
+      );
+    }
+    if (tracked) {
+      this.scheduleExpiry();
+    }
+  }
+
+  // Resets expired values to their defaults and drops expired entries
+  private expireDue(): void {
+    const now = Date.now();
+    if (now < this.nextExpiry) return;
+
+    const update: Record<string, any> = {};
+    for (const key in this.expiries) {
+      const expiry = this.expiries[key];
+      if (expiry.at !== undefined && expiry.at <= now) {
+        update[key] = this.defaultServiceState[key];
+        delete this.expiries[key];
+        // An expired lazy item is loaded again the next time it's needed
+        if (key in this.loadStatus) {
+          this.loads.delete(key);
+          this.setLoadStatus(key, { status: "idle" });
+        }
+        continue;
+      }
+      const due = dueEntries(expiry, now);
+      if (due.length > 0) {
+        update[key] = withoutEntries(this.serviceState[key], due);
+        this.expiries[key] = {
+          ...expiry,
+          entries: withoutEntries(expiry.entries!, due),
+        };
+      }
     }
+    // Commits synchronously up to notifying, so callers read the reset state
+    this.commit(update as Partial<DerivedServiceState<TConfig>>, new Map(), {
+      source: { cause: "expire" },
+    }).catch((error) => {
+      Logger.forContext("Core").error("Failed to expire state:", error);
+    });
+    this.scheduleExpiry();
   }
 
-  // If we pass in specific state to persist, it only persists that state.
-  // Otherwise persists all of the worker state.
-  private async persist(
-    state?: Partial<DerivedServiceState<TConfig>>
-  ): Promise<void> {
-    for (const key in state || this.serviceState) {
-      const item = this.config[key] as ConfigItem<any>;
-      const persistence = item.persist || "none";
-      const value = state
-        ? state[key as keyof DerivedServiceState<TConfig>]
-        : this.serviceState[key];
-      switch (persistence) {
-        case "session":
-          await browser.storage.session.set({
-            [this.storagePrefix + (key as string)]: value,
-          });
-          break;
-        case "local":
-          await browser.storage.local.set({
-            [this.storagePrefix + (key as string)]: value,
-          });
-          break;
-        default:
-          break;
-      }
+  // Sets a timer for the next expiry, and an alarm in case the service
+  // worker is stopped before it fires
+  private scheduleExpiry(): void {
+    const next = Math.min(
+      ...Object.keys(this.expiries).map((key) => nextDue(this.expiries[key]))
+    );
+    this.nextExpiry = next;
+    if (this.expiryTimer !== undefined) clearTimeout(this.expiryTimer);
+    this.expiryTimer = undefined;
+    if (next === Infinity) {
+      browser.alarms?.clear(this.expiryAlarm);
+      return;
     }
+    this.expiryTimer = setTimeout(
+      () => this.expireDue(),
+      // Longer delays overflow setTimeout; the alarm covers those
+      Math.min(Math.max(0, next - Date.now()), 2 ** 31 - 1)
+    );
+    browser.alarms?.create(this.expiryAlarm, { when: next });
   }
 
   public async clear(): Promise<void> {
     // this.logger.log("Clearing state");
+    // Hydration finishing afterwards would bring the cleared state back
+    await this.hydrated;
+    const previous: PreviousState = {
+      service: this.serviceState,
+      instances: new Map(),
+    };
+    this.instances.forEach((_, key) => {
+      previous.instances.set(key, this.stateOf(key));
+    });
     this.serviceState = this.defaultServiceState;
+    this.shared = emptySharedState();
+    this.expiries = {};
+    this.scheduleExpiry();
+    // Agents reconnecting after this start over too
+    this.departed.forEach((_, location) => this.expireDeparted(location));
+    this.restored.forEach((_, location) => this.dropRestored(location));
+    // Lazy items are back to their defaults, to be loaded again when needed
+    this.loads.clear();
+    Object.keys(this.loadStatus).forEach((key) => {
+      if (this.loadStatus[key].status !== "idle") {
+        this.setLoadStatus(key, { status: "idle" });
+      }
+    });
     this.instances.forEach((_, key) => {
-      this.instances.set(key, this.defaultInstanceState);
+      this.instances.set(key, {
+        ...this.defaultInstanceState,
+        ...this.computeInstance(key, this.defaultInstanceState),
+      });
+    });
+    this.history?.clear();
+    this.notifyHistoryChange();
+    this.persist();
+    this.instanceRecords.forEach((records, key) => {
+      records.clear();
+      this.persistInstanceRecord(key);
     });
-    await this.persist();
-    this.notify({} as StateChanges<TConfig>);
+    this.checkpoint();
+    const instanceState = new Map<string, StateChanges<TConfig>>();
+    this.instances.forEach((state, key) => {
+      instanceState.set(key, { ...this.defaultSharedState, ...state });
+    });
+    this.notify(
+      this.serviceState as StateChanges<TConfig>,
+      instanceState,
+      this.stamp({ cause: "clear" }),
+      previous
+    );
   }
 
-  public subscribe(listener: StateChangeListener<TConfig>): void {
+  /**
+   * Calls the listener after every change, or only those matching `options`.
+   * @returns A function that removes the listener.
+   */
+  public subscribe(
+    listener: StateChangeListener<TConfig>,
+    options: SubscribeOptions<TConfig> = {}
+  ): () => void {
     // this.logger.log("Subscribing to state");
-    this.stateChangeListeners.push(listener);
+    const subscription = { ...options, listener };
+    this.stateChangeListeners.push(subscription);
+    if (options.keys) {
+      this.requestLoad(options.keys as string[]);
+    }
+    return () => {
+      this.stateChangeListeners = this.stateChangeListeners.filter(
+        (s) => s !== subscription
+      );
+    };
+  }
+
+  // Calls one subscriber, unless none of the keys it wants have changed
+  private callSubscriber(
+    subscription: StateSubscription<TConfig>,
+    state: DerivedInstanceState<TConfig> | DerivedState<TConfig>,
+    changes: StateChanges<TConfig>,
+    previous: Record<string, any>,
+    agent: AgentInfo | undefined,
+    meta: ChangeMetadata
+  ): void {
+    const keys = Object.keys(changes);
+    if (keys.length === 0) return;
+    if (
+      subscription.keys &&
+      !subscription.keys.some((key) => (key as string) in changes)
+    ) {
+      return;
+    }
+    const updates: Record<string, { current: any; previous: any }> = {};
+    keys.forEach((key) => {
+      updates[key] = {
+        current: changes[key],
+        previous: previous[key],
+      };
+    });
+    subscription.listener(
+      state,
+      changes,
+      agent,
+      meta,
+      updates as StateChangeUpdates<TConfig>
+    );
   }
 
   // Right now we notify the instance even if the state change came from the instance.
   // This should probably be skipped for instance state, since it already knows.
-  private notify(changes: StateChanges<TConfig>, key?: string): void {
-    const agent = key ? this.porter.getAgentById(key) : undefined;
-    const state = key ? this.get(key) : this.get();
+  // `previous` holds the values agents had before the changes, so objects
+  // and arrays may be sent to them as patches instead of in full.
+  private notify(
+    serviceChanges: StateChanges<TConfig>,
+    instanceChanges: Map<string, StateChanges<TConfig>>,
+    meta: ChangeMetadata,
+    previous: PreviousState
+  ): void {
+    // Instances only affected by service changes weren't recorded, but their
+    // previous values of the changed keys are the service's
+    const previousOf = (key: string) =>
+      previous.instances.get(key) ?? previous.service;
 
-    if (this.stateChangeListeners.length > 0) {
-      this.stateChangeListeners.forEach((listener) => {
-        listener(state, changes, agent?.info);
+    this.stateChangeListeners.forEach((subscription) => {
+      const instance = subscription.instance;
+      if (instance !== undefined) {
+        if (!this.instances.has(instance)) return;
+        this.callSubscriber(
+          subscription,
+          this.stateOf(instance),
+          { ...serviceChanges, ...instanceChanges.get(instance) },
+          previousOf(instance),
+          this.porter.getAgentById(instance)?.info,
+          meta
+        );
+        return;
+      }
+      this.callSubscriber(
+        subscription,
+        this.stateOf(),
+        serviceChanges,
+        previous.service,
+        undefined,
+        meta
+      );
+      instanceChanges.forEach((changes, key) => {
+        this.callSubscriber(
+          subscription,
+          this.stateOf(key),
+          changes,
+          previousOf(key),
+          this.porter.getAgentById(key)?.info,
+          meta
+        );
       });
-    }
+    });
 
-    if (key && agent?.info.location) {
+    // for every key of this.instances, post the combined state update to the corresponding key
+    // Service changes are the same for everyone, so are only encoded once
+    const serviceUpdate = this.encodeUpdate(serviceChanges, previous.service);
+    this.instances.forEach((_, key) => {
+      const changes = instanceChanges.get(key) ?? {};
+      if (Object.keys({ ...serviceChanges, ...changes }).length === 0) return;
+      const update = this.encodeUpdate(changes, previous.instances.get(key));
+      const state = this.filterByInterest(key, {
+        ...serviceUpdate.state,
+        ...update.state,
+      });
+      const patches = this.filterByInterest(key, {
+        ...serviceUpdate.patches,
+        ...update.patches,
+      });
+      if (Object.keys({ ...state, ...patches }).length === 0) return;
       this.porter.post(
-        { action: "stateUpdate", payload: { state: changes } },
-        agent.info.location
+        {
+          action: "stateUpdate",
+          payload: {
+            state,
+            ...(Object.keys(patches).length > 0 ? { patches } : {}),
+            meta,
+          },
+        },
+        key
       );
+    });
+  }
+
+  /**
+   * Limits what is sent to an agent to the given keys, or lifts the limit
+   * if `keys` is null. Keys the agent wasn't receiving before are sent to it
+   * straight away, since its copies of them may be out of date.
+   */
+  private setInterest(key: string, keys: string[] | null): void {
+    const previous = this.interests.get(key);
+    if (keys === null) {
+      this.interests.delete(key);
     } else {
-      // for every key of this.instances, post the state update to the corresponding key
-      this.instances.forEach((_, key) => {
-        this.porter.post(
-          { action: "stateUpdate", payload: { state: changes } },
-          key
-        );
+      this.interests.set(key, new Set(keys));
+    }
+    // Before its initial state goes out, the agent has nothing to catch up on
+    if (!previous || !this.agentsInitialized.has(key)) return;
+
+    this.hydrated.then(() => {
+      const state = this.read(key) as Record<string, any>;
+      const added = Object.keys(state).filter(
+        (itemKey) =>
+          !previous.has(itemKey) && (keys === null || keys.includes(itemKey))
+      );
+      if (added.length === 0) return;
+      const update: Record<string, any> = {};
+      added.forEach((itemKey) => {
+        update[itemKey] = state[itemKey];
       });
+      this.porter.post(
+        {
+          action: "stateUpdate",
+          payload: {
+            state: encodeState(this.config, update, this.codec),
+            meta: { cause: "hydrate", timestamp: Date.now(), seq: this.seq },
+          },
+        },
+        key
+      );
+    });
+  }
+
+  // The entries of `values` an agent has asked to be sent
+  private filterByInterest<T extends Record<string, any>>(
+    key: string,
+    values: T
+  ): T {
+    const interest = this.interests.get(key);
+    if (!interest) return values;
+    const filtered: Record<string, any> = {};
+    for (const itemKey in values) {
+      if (interest.has(itemKey)) {
+        filtered[itemKey] = values[itemKey];
+      }
+    }
+    return filtered as T;
+  }
+
+  // Encodes changes for agents, sending objects and arrays as patches
+  // against the agent's previous values where that is smaller
+  private encodeUpdate(
+    changes: Record<string, any>,
+    previous?: Record<string, any>
+  ): StateUpdatePayload {
+    const state = encodeState(this.config, changes, this.codec);
+    if (!previous) return { state };
+    const base: Record<string, any> = {};
+    for (const key in state) {
+      if (isPatchable(state[key]) && key in previous) {
+        base[key] = previous[key];
+      }
     }
+    return createStateUpdate(
+      state,
+      encodeState(this.config, base, this.codec)
+    );
   }
 
   public get(): DerivedState<TConfig>;
@@ -320,11 +1964,53 @@ export class Crann<TConfig extends AnyConfig> {
   ): DerivedInstanceState<TConfig> & DerivedServiceState<TConfig>;
   public get(
     key?: string
+  ): DerivedServiceState<TConfig> | DerivedState<TConfig> {
+    // Reading a lazy item is what first loads it
+    return watchReads(
+      this.read(key),
+      Object.keys(this.loadStatus).filter(
+        (itemKey) => this.loadStatus[itemKey].status === "idle"
+      ),
+      (itemKey) => this.requestLoad([itemKey])
+    );
+  }
+
+  // The state with expired values reset, as the hub itself reads it, without
+  // starting any loads
+  private read(): DerivedState<TConfig>;
+  private read(
+    key: string
+  ): DerivedInstanceState<TConfig> & DerivedServiceState<TConfig>;
+  private read(
+    key?: string
+  ): DerivedServiceState<TConfig> | DerivedState<TConfig>;
+  private read(
+    key?: string
+  ): DerivedServiceState<TConfig> | DerivedState<TConfig> {
+    // Expired values are reset as they are read
+    this.expireDue();
+    return this.stateOf(key);
+  }
+
+  // The state as it is, without expiring anything first
+  private stateOf(): DerivedState<TConfig>;
+  private stateOf(
+    key: string
+  ): DerivedInstanceState<TConfig> & DerivedServiceState<TConfig>;
+  private stateOf(
+    key?: string
+  ): DerivedServiceState<TConfig> | DerivedState<TConfig>;
+  private stateOf(
+    key?: string
   ): DerivedServiceState<TConfig> | DerivedState<TConfig> {
     if (!key) {
       return { ...this.serviceState, ...({} as DerivedInstanceState<TConfig>) };
     }
-    return { ...this.serviceState, ...this.instances.get(key) };
+    return {
+      ...this.serviceState,
+      ...this.sharedStateOf(key),
+      ...this.instances.get(key),
+    };
   }
 
 
@@ -333,6 +2019,31 @@ export class Crann<TConfig extends AnyConfig> {
     return this.porter.queryAgents(query);
   }
 
+  /**
+   * Lists connected instances with their agent and state. Only includes
+   * those whose location matches `query`, and whose state passes
+   * `predicate`, when given.
+   */
+  public getInstances(
+    query?: Partial<BrowserLocation>,
+    predicate?: (
+      state: InstanceEntry<TConfig>["state"],
+      agent: AgentInfo
+    ) => boolean
+  ): Array<InstanceEntry<TConfig>> {
+    const agents: Array<AgentInfo | undefined> = query
+      ? this.porter.queryAgents(query).map((agent) => agent.info)
+      : Array.from(this.instances.keys()).map(
+          (id) => this.porter.getAgentById(id)?.info
+        );
+    return agents
+      .filter(
+        (agent): agent is AgentInfo => !!agent && this.instances.has(agent.id)
+      )
+      .map((agent) => ({ id: agent.id, agent, state: this.read(agent.id) }))
+      .filter((entry) => !predicate || predicate(entry.state, entry.agent));
+  }
+
   public async set(state: Partial<DerivedServiceState<TConfig>>): Promise<void>;
   public async set(
     state: Partial<
@@ -354,75 +2065,336 @@ export class Crann<TConfig extends AnyConfig> {
         >,
     key?: string
   ): Promise<void> {
+    await this.write(state, key, { cause: "setState" });
+  }
+
+  // Refused writes from agents are reported to them; any others throw
+  private async write(
+    state: Record<string, any>,
+    key: string | undefined,
+    source: ChangeSource
+  ): Promise<void> {
+    // Hydration would overwrite anything committed before it finishes
+    await this.hydrated;
+    const context = this.writeContext(source, key);
+    const agent =
+      source.cause === "setState" && source.agentId !== undefined
+        ? this.porter.getAgentById(source.agentId)?.info
+        : undefined;
+    try {
+      state = this.beforeSet(state, context);
+    } catch (error) {
+      if (!agent) throw error;
+      this.rejectWrite({
+        keys: Object.keys(state),
+        reason: error instanceof Error ? error.message : String(error),
+        agent,
+      });
+      return;
+    }
+    // Middleware may have added keys the agent can't write
+    if (agent) {
+      state = this.rejectForbidden(state, agent);
+    }
+    if (Object.keys(state).length === 0) return;
+
+    const { instance, service } = this.splitState(state);
+    // this.logger.log("Setting state:", { instance, service });
+    await this.commit(
+      service,
+      key && Object.keys(instance).length > 0
+        ? new Map([[key, instance]])
+        : new Map(),
+      { source }
+    );
+    this.afterSet(state, context);
+  }
+
+  /**
+   * Adds middleware, run after any added before it.
+   * @returns A function that removes it.
+   */
+  public use(middleware: Middleware<TConfig>): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  private writeContext(source: ChangeSource, key?: string): WriteContext {
+    return key !== undefined ? { ...source, instance: key } : source;
+  }
+
+  // Passes a write through each middleware's beforeSet in turn
+  private beforeSet(
+    state: Record<string, any>,
+    context: WriteContext
+  ): Record<string, any> {
+    return this.middleware.reduce(
+      (current, middleware) =>
+        middleware.beforeSet?.(current, context) ?? current,
+      state
+    );
+  }
+
+  // The write has happened by now, so a failing afterSet is only logged
+  private afterSet(state: Record<string, any>, context: WriteContext): void {
+    this.middleware.forEach((middleware) => {
+      try {
+        middleware.afterSet?.(state, context);
+      } catch (error) {
+        Logger.forContext("Core").error("Error in afterSet middleware:", error);
+      }
+    });
+  }
+
+  // Sorts a state update into its instance and service partitions
+  private splitState(state: Record<string, any>): {
+    instance: Partial<DerivedInstanceState<TConfig>>;
+    service: Partial<DerivedServiceState<TConfig>>;
+  } {
     const instance = {} as Partial<DerivedInstanceState<TConfig>>;
-    const worker = {} as Partial<DerivedServiceState<TConfig>>;
+    const service = {} as Partial<DerivedServiceState<TConfig>>;
 
     for (const itemKey in state) {
       const item = this.config[itemKey as keyof TConfig];
+      if (item && isComputedItem(item)) {
+        throw new Error(`Cannot set computed item "${itemKey}"`);
+      }
       if (isConfigItem(item)) {
-        if (item.partition === "instance") {
-          const instanceItemKey =
-            itemKey as keyof DerivedInstanceState<TConfig>;
-          const instanceState = state as Partial<DerivedInstanceState<TConfig>>;
-          instance[instanceItemKey] = instanceState[instanceItemKey];
+        if (item.partition && item.partition !== Partition.Service) {
+          instance[itemKey as keyof DerivedInstanceState<TConfig>] =
+            state[itemKey];
         } else if (!item.partition || item.partition === Partition.Service) {
-          const serviceItemKey = itemKey as keyof DerivedServiceState<TConfig>;
-          const serviceState = state as Partial<DerivedServiceState<TConfig>>;
-          worker[serviceItemKey] = serviceState[serviceItemKey]!;
+          service[itemKey as keyof DerivedServiceState<TConfig>] =
+            state[itemKey];
         }
       }
     }
 
-    if (key && Object.keys(instance).length > 0) {
-      // this.logger.withTag(key).log("Setting instance state:", instance);
-      this.setInstanceState(key, instance);
-    }
-    if (Object.keys(worker).length > 0) {
-      // this.logger.log("Setting service state:", worker);
-      this.setServiceState(worker);
-    }
+    return { instance, service };
   }
 
   private async hydrate(): Promise<void> {
-  // Prepare lists of keys to fetch per storage type
-  const localKeys: string[] = [];
-  const sessionKeys: string[] = [];
+    await this.restoreCheckpoint();
 
-  for (const key in this.config) {
-    const item = this.config[key];
-    if (!isStateItem(item)) continue;
+    // Prepare lists of keys to fetch per adapter
+    const keysByArea = new Map<string, string[]>();
+    const addKeys = (area: string, keys: string[]) => {
+      keysByArea.set(area, [...(keysByArea.get(area) ?? []), ...keys]);
+    };
+
+    for (const key in this.config) {
+      const item = this.config[key];
+      if (!isStateItem(item)) continue;
+      const area = this.storageAreaOf(item);
+      if (!area) continue;
+
+      const keys = [this.storagePrefix + key];
+      if (item.version !== undefined) {
+        keys.push(this.storagePrefix + key + VERSION_SUFFIX);
+      }
+      if (item.ttl !== undefined || item.entryTtl !== undefined) {
+        keys.push(this.storagePrefix + key + EXPIRES_SUFFIX);
+      }
+      addKeys(area, keys);
+      // Look for a copy left in local storage when sync was over quota
+      if (
+        area === Persistence.Sync &&
+        item.syncFallback === Persistence.Local
+      ) {
+        addKeys(Persistence.Local, keys);
+      }
+    }
+
+    // Batch fetch only necessary keys
+    const areas = Array.from(keysByArea.keys());
+    const results = await Promise.all(
+      areas.map((area) => this.adapters[area].get(keysByArea.get(area)!))
+    );
+    const data = new Map(areas.map((area, i) => [area, results[i]]));
 
-    switch (item.persist) {
-      case "local":
-        localKeys.push(this.storagePrefix + key);
-        break;
-      case "session":
-        sessionKeys.push(this.storagePrefix + key);
-        break;
-      default:
-        break;
+    const localData = data.get(Persistence.Local) ?? {};
+    (keysByArea.get(Persistence.Sync) ?? [])
+      .filter((key) => key in localData)
+      .forEach((key) => this.localFallbacks.add(key));
+
+    // Synced values take precedence over any local fallback copy
+    const combined: Record<string, any> = Object.assign(
+      {},
+      ...results,
+      data.get(Persistence.Sync)
+    );
+
+    const update: Partial<DerivedServiceState<TConfig>> = {};
+    const migrated: Partial<DerivedServiceState<TConfig>> = {};
+
+    for (const prefixedKey in combined) {
+      const key = this.removePrefix(prefixedKey);
+      if (!this.config.hasOwnProperty(key)) continue;
+
+      const storedVersion = combined[prefixedKey + VERSION_SUFFIX];
+      if (this.instanceRecords.has(key)) {
+        this.loadInstanceRecords(key, combined[prefixedKey], storedVersion);
+        continue;
+      }
+
+      const stateKey = key as keyof DerivedServiceState<TConfig>;
+      const loaded = this.loadStoredValue(
+        key,
+        combined[prefixedKey],
+        storedVersion
+      );
+      if (!loaded) continue;
+      update[stateKey] = loaded.value;
+      if (loaded.migrated) {
+        migrated[stateKey] = loaded.value;
+      }
+      const item = this.config[key] as ConfigItem<any>;
+      if (combined[prefixedKey + EXPIRES_SUFFIX]) {
+        this.expiries[key] = combined[prefixedKey + EXPIRES_SUFFIX];
+      } else if (item.ttl !== undefined || item.entryTtl !== undefined) {
+        // Stored before the item had a ttl, so its clock starts now
+        this.expiries[key] = stampExpiry(
+          item,
+          undefined,
+          loaded.value,
+          undefined,
+          Date.now()
+        );
+      }
     }
-  }
+    // Lazy items that were persisted don't need loading again
+    for (const key in update) {
+      if (key in this.loadStatus && update[key] !== undefined) {
+        this.loadStatus[key] = { status: "loaded" };
+      }
+    }
+    // Merge into default service state
+    this.serviceState = { ...this.defaultServiceState, ...update };
+    this.serviceState = {
+      ...this.serviceState,
+      ...recompute(
+        this.config,
+        this.computed,
+        Partition.Service,
+        this.serviceState
+      ),
+    };
+    // Restore the saved state of each origin, dropping any that has expired
+    this.instanceRecords.forEach((records, key) => {
+      const item = this.config[key] as ConfigItem<any>;
+      if (item.partition !== Partition.Origin) return;
+      const now = Date.now();
+      records.forEach((record, origin) => {
+        if (item.maxAge !== undefined && now - record.touchedAt > item.maxAge) {
+          return;
+        }
+        this.shared.origin.set(origin, {
+          ...this.shared.origin.get(origin),
+          [key]: record.value,
+        });
+      });
+    });
+
+    // Agents may already be connected, waiting on hydration for their state
+    this.instances.forEach((instanceState, key) => {
+      const seeded = {
+        ...instanceState,
+        ...(this.resumeInstance(key) ?? this.loadInstance(key)),
+      };
+      this.instances.set(key, {
+        ...seeded,
+        ...this.computeInstance(key, seeded),
+      });
+    });
 
-  // Batch fetch only necessary keys
-  const [localData, sessionData]: [Record<string, any>, Record<string, any>] = await Promise.all([
-    localKeys.length ? browser.storage.local.get(localKeys) : Promise.resolve({}),
-    sessionKeys.length ? browser.storage.session.get(sessionKeys) : Promise.resolve({}),
-  ]);
+    // Write migrated values back so they are only migrated once
+    if (Object.keys(migrated).length > 0) {
+      this.persist(migrated);
+    }
+    if (this.instances.size > 0) {
+      this.checkpoint();
+    }
+    // Reset whatever expired while the service worker was stopped
+    this.scheduleExpiry();
+    this.expireDue();
+  }
 
-  const combined = { ...localData, ...sessionData };
+  // Reads an item's stored instance records, keeping any an instance has
+  // already written since startup
+  private loadInstanceRecords(
+    key: string,
+    stored: Record<string, InstanceRecord> | undefined,
+    storedVersion?: number
+  ): void {
+    const records = this.instanceRecords.get(key)!;
+    let migrated = false;
+    for (const instanceKey in stored) {
+      if (records.has(instanceKey)) continue;
+      const loaded = this.loadStoredValue(
+        key,
+        stored[instanceKey].value,
+        storedVersion
+      );
+      if (!loaded) continue;
+      migrated = migrated || loaded.migrated;
+      records.set(instanceKey, {
+        value: loaded.value,
+        touchedAt: stored[instanceKey].touchedAt,
+      });
+    }
+    if (migrated) {
+      this.persistInstanceRecord(key);
+    }
+  }
 
-  const update: Partial<DerivedServiceState<TConfig>> = {};
+  // Decodes an item's stored value, migrating it first if it was stored
+  // under an older schema version. Returns undefined when migration fails,
+  // leaving the item as it was.
+  private loadStoredValue(
+    key: string,
+    stored: any,
+    // Values stored before the item was versioned count as version 0
+    storedVersion: number = 0
+  ): { value: any; migrated: boolean } | undefined {
+    const item = this.config[key] as ConfigItem<any>;
+    let value = this.codec.decode(stored);
+    let migrated = false;
+    if (item.version !== undefined && storedVersion !== item.version) {
+      try {
+        value = migrate(value, storedVersion, item.version, item.migrations);
+        migrated = true;
+      } catch (error) {
+        this.notifyMigrationError({
+          key,
+          fromVersion: storedVersion,
+          toVersion: item.version,
+          error,
+        });
+        return undefined;
+      }
+    }
 
-  for (const prefixedKey in combined) {
-    const key = this.removePrefix(prefixedKey);
-    if (this.config.hasOwnProperty(key)) {
-      update[key as keyof DerivedServiceState<TConfig>] = combined[prefixedKey];
+    try {
+      return {
+        // An unloaded lazy item is stored as undefined
+        value:
+          item.deserialize && value !== undefined
+            ? item.deserialize(value)
+            : value,
+        migrated,
+      };
+    } catch (error) {
+      // One unreadable item shouldn't stop the others being restored
+      this.notifyStorageError({
+        key,
+        area: this.storageAreaOf(item) ?? "",
+        error,
+      });
+      return undefined;
     }
   }
-  // Merge into default service state
-  this.serviceState = { ...this.defaultServiceState, ...update };
-}
 
   private removePrefix(key: string): string {
     if (key.startsWith(this.storagePrefix)) {
@@ -442,6 +2414,17 @@ export class Crann<TConfig extends AnyConfig> {
     return instanceState;
   }
 
+  private initializeSharedDefault(): Record<string, any> {
+    const sharedState: Record<string, any> = {};
+    Object.keys(this.config).forEach((key) => {
+      const item = this.config[key];
+      if (isStateItem(item) && this.sharedPartitionOf(key)) {
+        sharedState[key] = item.default;
+      }
+    });
+    return sharedState;
+  }
+
   private initializeServiceDefault(): DerivedServiceState<TConfig> {
     // this.logger.log("Initializing service default state");
     // this.logger.log("Config is:", this.config);
@@ -463,6 +2446,10 @@ export class Crann<TConfig extends AnyConfig> {
         // );
       }
     });
+    Object.assign(
+      serviceState,
+      recompute(this.config, this.computed, Partition.Service, serviceState)
+    );
     // this.logger.log("Final service state is:", serviceState);
     return serviceState;
   }
@@ -499,6 +2486,162 @@ export class Crann<TConfig extends AnyConfig> {
     }
   }
 
+  /**
+   * Calls the listener whenever an agent disconnects, with its instance
+   * state as it was. The state may still be given back to a reconnecting
+   * agent; see onInstanceRemoved.
+   */
+  public subscribeToInstanceDisconnected(
+    listener: InstanceLifecycleListener<TConfig>
+  ): () => void {
+    this.instanceDisconnectedListeners.push(listener);
+
+    return () => {
+      const index = this.instanceDisconnectedListeners.indexOf(listener);
+      if (index !== -1) {
+        this.instanceDisconnectedListeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyInstanceDisconnected(
+    instanceId: string,
+    info: AgentInfo,
+    state: DerivedInstanceState<TConfig>
+  ): void {
+    this.instanceDisconnectedListeners.forEach((listener) => {
+      listener(instanceId, info, state);
+    });
+  }
+
+  /**
+   * Calls the listener when a disconnected agent's instance state is
+   * dropped: straight away, or once the reconnect grace period has passed
+   * without the agent coming back.
+   */
+  public subscribeToInstanceRemoved(
+    listener: InstanceLifecycleListener<TConfig>
+  ): () => void {
+    this.instanceRemovedListeners.push(listener);
+
+    return () => {
+      const index = this.instanceRemovedListeners.indexOf(listener);
+      if (index !== -1) {
+        this.instanceRemovedListeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyInstanceRemoved(
+    instanceId: string,
+    info: AgentInfo,
+    state: DerivedInstanceState<TConfig>
+  ): void {
+    this.instanceRemovedListeners.forEach((listener) => {
+      listener(instanceId, info, state);
+    });
+  }
+
+  public subscribeToMigrationErrors(
+    listener: (error: MigrationError) => void
+  ): () => void {
+    this.migrationErrorListeners.push(listener);
+
+    return () => {
+      const index = this.migrationErrorListeners.indexOf(listener);
+      if (index !== -1) {
+        this.migrationErrorListeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyMigrationError(error: MigrationError): void {
+    this.migrationErrorListeners.forEach((listener) => {
+      listener(error);
+    });
+  }
+
+  public subscribeToWriteRejected(
+    listener: (rejection: WriteRejection) => void
+  ): () => void {
+    this.writeRejectedListeners.push(listener);
+
+    return () => {
+      const index = this.writeRejectedListeners.indexOf(listener);
+      if (index !== -1) {
+        this.writeRejectedListeners.splice(index, 1);
+      }
+    };
+  }
+
+  public subscribeToStorageErrors(
+    listener: (error: StorageError) => void
+  ): () => void {
+    this.storageErrorListeners.push(listener);
+
+    return () => {
+      const index = this.storageErrorListeners.indexOf(listener);
+      if (index !== -1) {
+        this.storageErrorListeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyStorageError(error: StorageError): void {
+    this.storageErrorListeners.forEach((listener) => {
+      listener(error);
+    });
+  }
+
+  // The part of an agent's write it may make, reporting the rest
+  private rejectForbidden(
+    state: Record<string, any>,
+    agent: AgentInfo
+  ): Record<string, any> {
+    const allowed: Record<string, any> = {};
+    const rejected = new Map<string, string[]>();
+    for (const key of Object.keys(state)) {
+      const reason = this.getWriteError(key, agent);
+      if (reason) {
+        rejected.set(reason, [...(rejected.get(reason) ?? []), key]);
+      } else {
+        allowed[key] = state[key];
+      }
+    }
+    rejected.forEach((keys, reason) => {
+      this.rejectWrite({ keys, reason, agent });
+    });
+    return allowed;
+  }
+
+  // Returns why an agent may not write the given key, if it may not
+  private getWriteError(key: string, agent: AgentInfo): string | undefined {
+    const item = this.config[key];
+    if (item && isComputedItem(item)) return "Computed items are read-only";
+    const partition = this.sharedPartitionOf(key);
+    if (partition && this.sharedKeyOf(partition, agent.id) === undefined) {
+      return `Agent has no ${partition}`;
+    }
+    if (!isConfigItem(item) || !item.writableBy) return undefined;
+    const allowed =
+      typeof item.writableBy === "function"
+        ? item.writableBy(agent)
+        : item.writableBy.includes(agent.location.context);
+    return allowed ? undefined : "Not writable by this agent";
+  }
+
+  // Tell both the agent that attempted the write and any hub listeners
+  private rejectWrite(rejection: WriteRejection): void {
+    const { agent, ...rejected } = rejection;
+    this.porter.post(
+      { action: "stateRejected", payload: rejected },
+      agent.location
+    );
+    this.writeRejectedListeners.forEach((listener) => {
+      listener(rejection);
+    });
+  }
+
   private extractActions(
     config: TConfig
   ): Record<string, ActionDefinition<DerivedState<TConfig>, any[], any>> {
@@ -522,6 +2665,7 @@ export class Crann<TConfig extends AnyConfig> {
 
 // Define an interface for the API returned by create()
 export interface CrannAPI<TConfig extends AnyConfig> {
+  ready: () => Promise<void>;
   get: {
     (): DerivedState<TConfig>;
     (key: string): DerivedInstanceState<TConfig> & DerivedServiceState<TConfig>;
@@ -538,11 +2682,47 @@ export interface CrannAPI<TConfig extends AnyConfig> {
       key: string
     ): Promise<void>;
   };
-  subscribe: (listener: StateChangeListener<TConfig>) => void;
+  subscribe: (
+    listener: StateChangeListener<TConfig>,
+    options?: SubscribeOptions<TConfig>
+  ) => () => void;
   onInstanceReady: (
     listener: (instanceId: string, agent: AgentInfo) => void
   ) => () => void;
+  onInstanceDisconnected: (
+    listener: InstanceLifecycleListener<TConfig>
+  ) => () => void;
+  onInstanceRemoved: (
+    listener: InstanceLifecycleListener<TConfig>
+  ) => () => void;
+  onMigrationError: (
+    listener: (error: MigrationError) => void
+  ) => () => void;
+  onWriteRejected: (
+    listener: (rejection: WriteRejection) => void
+  ) => () => void;
+  onStorageError: (listener: (error: StorageError) => void) => () => void;
+  transaction: <TResult>(
+    callback: (tx: Transaction<TConfig>) => Promise<TResult> | TResult
+  ) => Promise<TResult>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  flush: () => Promise<void>;
+  load: <K extends keyof DerivedState<TConfig>>(
+    key: K
+  ) => Promise<DerivedState<TConfig>[K]>;
+  getLoadStatus: (key: keyof DerivedState<TConfig>) => LoadStatus;
+  use: (middleware: Middleware<TConfig>) => () => void;
   queryAgents: (query: Partial<BrowserLocation>) => Agent[];
+  getInstances: (
+    query?: Partial<BrowserLocation>,
+    predicate?: (
+      state: InstanceEntry<TConfig>["state"],
+      agent: AgentInfo
+    ) => boolean
+  ) => Array<InstanceEntry<TConfig>>;
   clear: () => Promise<void>;
 }
 
@@ -553,15 +2733,35 @@ export function create<TConfig extends AnyConfig>(
   const instance = Crann.getInstance(config, options);
 
   return {
+    ready: instance.ready.bind(instance),
     get: instance.get.bind(instance),
     set: instance.set.bind(instance),
     subscribe: instance.subscribe.bind(instance),
     onInstanceReady: instance.subscribeToInstanceReady.bind(instance),
+    onInstanceDisconnected:
+      instance.subscribeToInstanceDisconnected.bind(instance),
+    onInstanceRemoved: instance.subscribeToInstanceRemoved.bind(instance),
+    onMigrationError: instance.subscribeToMigrationErrors.bind(instance),
+    onWriteRejected: instance.subscribeToWriteRejected.bind(instance),
+    onStorageError: instance.subscribeToStorageErrors.bind(instance),
+    transaction: instance.transaction.bind(instance),
+    undo: instance.undo.bind(instance),
+    redo: instance.redo.bind(instance),
+    canUndo: instance.canUndo.bind(instance),
+    canRedo: instance.canRedo.bind(instance),
+    flush: instance.flush.bind(instance),
+    load: instance.load.bind(instance),
+    getLoadStatus: instance.getLoadStatus.bind(instance),
+    use: instance.use.bind(instance),
     queryAgents: instance.queryAgents.bind(instance),
+    getInstances: instance.getInstances.bind(instance),
     clear: instance.clear.bind(instance),
   };
 }
 
+// State items, including lazy items (which may not have a default)
 function isConfigItem(item: any): item is ConfigItem<any> {
-  return item && typeof item === "object" && "default" in item;
+  return (
+    item && typeof item === "object" && ("default" in item || "load" in item)
+  );
 }
@@ -1,5 +1,4 @@
 import {
-  ConfigItem,
   DerivedState,
   StateSubscriber,
   ConnectReturn,
@@ -10,26 +9,39 @@ import {
   AnyConfig,
   isStateItem,
   isActionItem,
+  isLazyItem,
+  LoadStatus,
   StateChanges,
+  RejectedWrite,
+  Partition,
+  ConnectOptions,
+  ChangeMetadata,
+  DEFAULT_STORE_NAME,
 } from "./model/crann.model";
 import { AgentInfo, connect as connectPorter } from "porter-source-fork";
 import { createCrannRPCAdapter } from "./rpc/adapter";
 import { Logger } from "./utils/logger";
 import { getAgentTag } from "./utils/agent";
-
-let connectionStatus: ConnectionStatus = { connected: false };
-let crannInstance: unknown = null;
-
-// Callbacks for disconnect/reconnect events
-const disconnectCallbacks = new Set<() => void>();
-const reconnectCallbacks = new Set<(info: AgentInfo) => void>();
+import { decodeState, defaultCodec, encodeState } from "./utils/codec";
+import { watchReads } from "./utils/lazy";
+import { analyzeComputed, recompute } from "./utils/computed";
+import { HistoryStatus } from "./utils/history";
+import { applyPatch, PatchOperation } from "./utils/patch";
+
+// One agent per store, by name
+const stores = new Map<
+  string,
+  { instance: unknown; status: () => ConnectionStatus }
+>();
 
 export function connect<TConfig extends AnyConfig>(
   config: TConfig,
-  options?: { context?: string; debug?: boolean }
+  options?: ConnectOptions<TConfig>
 ): ConnectReturn<TConfig> {
   const debug = options?.debug || false;
   const context = options?.context;
+  const codec = options?.codec ?? defaultCodec;
+  const name = options?.name ?? DEFAULT_STORE_NAME;
 
   // Set up logger
   if (debug) {
@@ -40,38 +52,81 @@ export function connect<TConfig extends AnyConfig>(
   let _myInfo: AgentInfo;
   let _myTag = "unset";
   const readyCallbacks = new Set<(info: ConnectionStatus) => void>();
+  const historyCallbacks = new Set<(status: HistoryStatus) => void>();
+  let _history: HistoryStatus = { canUndo: false, canRedo: false };
+  const loadStatusCallbacks = new Set<
+    (key: keyof DerivedState<TConfig>, status: LoadStatus) => void
+  >();
+  // Lazy items' load status, as last heard from the hub
+  let _loadStatus: Record<string, LoadStatus> = {};
+  // Lazy items asked for that the hub has yet to report on
+  const requested = new Set<string>();
+  Object.keys(config).forEach((key) => {
+    if (isLazyItem(config[key])) {
+      _loadStatus[key] = { status: "idle" };
+    }
+  });
 
   logger.log(
     "Initializing Crann Agent" + (context ? ` with context: ${context}` : "")
   );
-  if (crannInstance && connectionStatus.connected) {
+  const existing = stores.get(name);
+  if (existing && existing.status().connected) {
     logger.log("We had an instance already and it's connected, returning");
 
     logger.log("Connect, calling onReady callback");
     setTimeout(() => {
-      readyCallbacks.forEach((callback) => callback(connectionStatus));
+      readyCallbacks.forEach((callback) => callback(existing.status()));
     }, 0);
-    return crannInstance as ConnectReturn<TConfig>;
+    return existing.instance as ConnectReturn<TConfig>;
   }
 
-  if (crannInstance && !connectionStatus.connected) {
+  if (existing) {
     logger.log("We had an instance but it's disconnected, creating new connection");
     // Reset the instance to allow reconnection
-    crannInstance = null;
+    stores.delete(name);
   }
 
+  let connectionStatus: ConnectionStatus = { connected: false };
+
+  // Callbacks for disconnect/reconnect events
+  const disconnectCallbacks = new Set<() => void>();
+  const reconnectCallbacks = new Set<(info: AgentInfo) => void>();
+  const writeRejectedCallbacks = new Set<(rejection: RejectedWrite) => void>();
+
   logger.log("No existing instance, creating a new one");
   const porter = connectPorter({
-    namespace: "crann",
+    namespace: name,
     debug: false,
   });
 
   logger.log("Porter connection created");
 
+  // Tell the hub which keys to send us
+  let sentInterest: string | undefined;
+  const postInterest = (keys: string[] | null) => {
+    const interest = keys && Array.from(new Set(keys)).sort();
+    if (JSON.stringify(interest) === sentInterest) return;
+    sentInterest = JSON.stringify(interest);
+    logger.log("Calling post with setInterest", interest);
+    porter.post({ action: "setInterest", payload: { keys: interest } });
+  };
+  // Sent before our message handlers are set up, so the hub has it in time
+  // to filter the initial state
+  if (options?.keys) {
+    postInterest(options.keys.map(String));
+  }
+
+  // Whether our copy of the state is one the hub's patches apply to. It
+  // isn't from disconnecting until the hub sends the state again.
+  let initialStateReceived = false;
+  let readyReported = false;
+
   // Handle Porter disconnect/reconnect events
   porter.onDisconnect(() => {
     logger.log("Porter connection lost, updating connection status");
     connectionStatus = { connected: false };
+    initialStateReceived = false;
 
     // Notify disconnect callbacks
     disconnectCallbacks.forEach((callback) => {
@@ -101,6 +156,10 @@ export function connect<TConfig extends AnyConfig>(
     _myTag = getAgentTag(info);
     logger.setTag(_myTag);
 
+    // The hub knows nothing about the new connection's interest yet
+    sentInterest = undefined;
+    syncInterest();
+
     // Notify reconnect callbacks
     reconnectCallbacks.forEach((callback) => {
       try {
@@ -144,11 +203,11 @@ export function connect<TConfig extends AnyConfig>(
   const rpcEndpoint = createCrannRPCAdapter(
     () => getDerivedState(config),
     actions,
-    porter
+    porter,
+    undefined,
+    codec
   );
 
-  let initialStateReceived = false;
-
   porter.on({
     initialState: (message) => {
       logger.log("initialState received", {
@@ -156,15 +215,18 @@ export function connect<TConfig extends AnyConfig>(
         payload: message.payload,
       });
 
-      if (initialStateReceived) {
-        logger.log("Ignoring duplicate initialState message");
-        return;
-      }
-
+      // A later one (after reconnecting, or the service worker restarting)
+      // replaces our copy, which may have missed updates in the meantime
       initialStateReceived = true;
 
-      _state = message.payload.state;
+      _state = decodeState(
+        config,
+        message.payload.state,
+        codec
+      ) as DerivedState<TConfig>;
       _myInfo = message.payload.info;
+      _history = message.payload.history ?? _history;
+      setLoadStatus(message.payload.loadStatus ?? {});
       _myTag = getAgentTag(_myInfo);
       connectionStatus = { connected: true, agent: _myInfo };
 
@@ -176,69 +238,185 @@ export function connect<TConfig extends AnyConfig>(
           message,
         }
       );
-      readyCallbacks.forEach((callback) => {
-        logger.log("Calling onReady callbacks");
-        callback(connectionStatus);
-      });
+      // Reconnecting has already told them
+      if (!readyReported) {
+        readyReported = true;
+        readyCallbacks.forEach((callback) => {
+          logger.log("Calling onReady callbacks");
+          callback(connectionStatus);
+        });
+      }
+      const meta: ChangeMetadata = message.payload.meta;
       listeners.forEach((listener) => {
-        listener.callback(_state as StateChanges<TConfig>);
+        listener.callback(_state as StateChanges<TConfig>, meta);
       });
     },
     stateUpdate: (message) => {
-      changes = message.payload.state;
+      // Patches are made against our encoded copy of the value. Until the
+      // initial state arrives we don't have one, but it will include them.
+      const patches: Record<string, PatchOperation[]> =
+        initialStateReceived ? message.payload.patches ?? {} : {};
+      const patched: Record<string, unknown> = {};
+      for (const key of Object.keys(patches)) {
+        const current = encodeState(config, { [key]: _state[key] }, codec);
+        patched[key] = applyPatch(current[key], patches[key]);
+      }
+      changes = decodeState(
+        config,
+        { ...message.payload.state, ...patched },
+        codec
+      ) as StateChanges<TConfig>;
       _state = { ..._state, ...changes };
       logger.log("State updated:", { message, changes, _state });
       if (!changes) return;
 
+      const meta: ChangeMetadata = message.payload.meta;
       listeners.forEach((listener) => {
         if (listener.keys === undefined) {
-          listener.callback(changes!);
+          listener.callback(changes!, meta);
         } else {
           const matchFound = listener.keys.some((key) => key in changes!);
           if (matchFound) {
-            listener.callback(changes!);
+            listener.callback(changes!, meta);
           }
         }
       });
     },
+    loadStatus: (message) => {
+      setLoadStatus(message.payload);
+    },
+    historyUpdate: (message) => {
+      _history = message.payload;
+      logger.log("History updated:", _history);
+      historyCallbacks.forEach((callback) => {
+        try {
+          callback(_history);
+        } catch (error) {
+          logger.error("Error in history change callback:", error);
+        }
+      });
+    },
+    stateRejected: (message) => {
+      const rejection: RejectedWrite = message.payload;
+      logger.warn("State write rejected by the hub:", rejection);
+      writeRejectedCallbacks.forEach((callback) => {
+        try {
+          callback(rejection);
+        } catch (error) {
+          logger.error("Error in write rejected callback:", error);
+        }
+      });
+    },
   });
   logger.log("Porter connected. Setting up state and listeners");
   let _state = getDerivedState(config);
   let changes: StateChanges<TConfig> | null = null;
   const listeners = new Set<StateSubscriber<TConfig>>();
 
+  // Keep the hub up to date as subscriptions come and go: we want the
+  // declared keys plus those of every subscription, or all keys if any
+  // subscription is to everything
+  let interestQueued = false;
+  const syncInterest = () => {
+    if (!options?.keys || interestQueued) return;
+    interestQueued = true;
+    // Wait for the current round of subscribe/unsubscribe calls to finish
+    setTimeout(() => {
+      interestQueued = false;
+      const subscriptions = Array.from(listeners);
+      postInterest(
+        subscriptions.some((listener) => !listener.keys)
+          ? null
+          : subscriptions
+              .reduce<Array<keyof DerivedState<TConfig>>>(
+                (acc, listener) => acc.concat(listener.keys!),
+                options.keys!
+              )
+              .map(String)
+      );
+    }, 0);
+  };
+
+  const setLoadStatus = (statuses: Record<string, LoadStatus>) => {
+    _loadStatus = { ..._loadStatus, ...statuses };
+    Object.keys(statuses).forEach((key) => requested.delete(key));
+    Object.keys(statuses).forEach((key) => {
+      loadStatusCallbacks.forEach((callback) => {
+        try {
+          callback(key as keyof DerivedState<TConfig>, statuses[key]);
+        } catch (error) {
+          logger.error("Error in load status callback:", error);
+        }
+      });
+    });
+  };
+
+  // Asks the hub to load any of `keys` that are lazy and not yet loaded,
+  // unless already asked and the hub has yet to reply
+  const requestLoad = (keys: Array<keyof DerivedState<TConfig>>) => {
+    const needed = keys
+      .map(String)
+      .filter(
+        (key) =>
+          !requested.has(key) &&
+          (_loadStatus[key]?.status === "idle" ||
+            _loadStatus[key]?.status === "error")
+      );
+    if (needed.length === 0) return;
+    needed.forEach((key) => requested.add(key));
+    logger.log("Calling post with load", needed);
+    porter.post({ action: "load", payload: { keys: needed } });
+  };
+
   logger.log("Completed setup, returning instance");
 
-  const get = () => _state;
+  // Reading a lazy item that hasn't been asked for yet starts its load
+  const loadIfIdle = (keys: string[]) => {
+    requestLoad(keys.filter((key) => _loadStatus[key]?.status === "idle"));
+  };
+
+  const get = () =>
+    watchReads(
+      _state,
+      Object.keys(_loadStatus).filter(
+        (key) => _loadStatus[key].status === "idle"
+      ),
+      (key) => loadIfIdle([key])
+    );
   const set = (newState: StateChanges<TConfig>) => {
     logger.log("Calling post with setState", newState);
-    porter.post({ action: "setState", payload: { state: newState } });
+    porter.post({
+      action: "setState",
+      payload: { state: encodeState(config, newState, codec) },
+    });
   };
 
   const subscribe = (
-    callback: (changes: StateChanges<TConfig>) => void,
+    callback: (changes: StateChanges<TConfig>, meta: ChangeMetadata) => void,
     keys?: Array<keyof DerivedState<TConfig>>
   ): (() => void) => {
     const listener = { keys, callback };
     listeners.add(listener);
+    syncInterest();
+    if (keys) {
+      requestLoad(keys);
+    }
     return () => {
       listeners.delete(listener);
+      syncInterest();
     };
   };
 
   const useCrann: UseCrann<TConfig> = <K extends keyof DerivedState<TConfig>>(
     key: K
   ) => {
-    const getValue = () => {
-      const value = get()[key];
-      return value as TConfig[K] extends ConfigItem<any>
-        ? TConfig[K]["default"]
-        : never;
+    const getValue = (): DerivedState<TConfig>[K] => {
+      loadIfIdle([key as string]);
+      return _state[key];
     };
 
-    const setValue = (
-      value: TConfig[K] extends ConfigItem<any> ? TConfig[K]["default"] : never
-    ) => set({ [key]: value } as StateChanges<TConfig>);
+    const setValue = (value: DerivedState<TConfig>[K]) =>
+      set({ [key]: value } as StateChanges<TConfig>);
 
     const subscribeToChanges = (
       callback: (update: StateChangeUpdate<TConfig, K>) => void
@@ -246,14 +424,15 @@ export function connect<TConfig extends AnyConfig>(
       let previousValue = getValue();
 
       return subscribe(
-        (changes) => {
+        (changes, meta) => {
           if (key in changes) {
             const currentValue = getValue();
-            const fullState = get();
+            const fullState = _state;
             callback({
               current: currentValue,
               previous: previousValue,
               state: fullState,
+              meta,
             } as StateChangeUpdate<TConfig, K>);
             previousValue = currentValue;
           }
@@ -300,6 +479,77 @@ export function connect<TConfig extends AnyConfig>(
     };
   };
 
+  const onWriteRejected = (
+    callback: (rejection: RejectedWrite) => void
+  ): (() => void) => {
+    logger.log("onWriteRejected callback added");
+    writeRejectedCallbacks.add(callback);
+    return () => {
+      writeRejectedCallbacks.delete(callback);
+    };
+  };
+
+  const undo = () => {
+    logger.log("Calling post with undo");
+    porter.post({ action: "undo", payload: {} });
+  };
+
+  const redo = () => {
+    logger.log("Calling post with redo");
+    porter.post({ action: "redo", payload: {} });
+  };
+
+  const canUndo = () => _history.canUndo;
+  const canRedo = () => _history.canRedo;
+
+  const onHistoryChange = (
+    callback: (status: HistoryStatus) => void
+  ): (() => void) => {
+    historyCallbacks.add(callback);
+    return () => {
+      historyCallbacks.delete(callback);
+    };
+  };
+
+  /**
+   * Resolves with a lazy item's value once the hub has loaded it, asking
+   * the hub to load it if needed. Rejects if the load fails.
+   */
+  const load = <K extends keyof DerivedState<TConfig>>(
+    key: K
+  ): Promise<DerivedState<TConfig>[K]> =>
+    new Promise((resolve, reject) => {
+      const settle = (status?: LoadStatus) => {
+        if (!status || status.status === "loaded") {
+          resolve(_state[key]);
+        } else if (status.status === "error") {
+          reject(new Error(status.error));
+        } else {
+          return false;
+        }
+        return true;
+      };
+      if (_loadStatus[key as string]?.status !== "error") {
+        if (settle(_loadStatus[key as string])) return;
+      }
+      const unsubscribe = onLoadStatusChange((changedKey, status) => {
+        if (changedKey === key && settle(status)) unsubscribe();
+      });
+      requestLoad([key]);
+    });
+
+  const getLoadStatus = (key: keyof DerivedState<TConfig>): LoadStatus =>
+    _loadStatus[key as string] ?? { status: "loaded" };
+
+  const onLoadStatusChange = (
+    callback: (key: keyof DerivedState<TConfig>, status: LoadStatus) => void
+  ): (() => void) => {
+    loadStatusCallbacks.add(callback);
+    return () => {
+      loadStatusCallbacks.delete(callback);
+    };
+  };
+
   const instance = {
     useCrann,
     get,
@@ -310,15 +560,24 @@ export function connect<TConfig extends AnyConfig>(
     callAction,
     onDisconnect,
     onReconnect,
+    onWriteRejected,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    onHistoryChange,
+    load,
+    getLoadStatus,
+    onLoadStatusChange,
   };
 
-  crannInstance = instance;
+  stores.set(name, { instance, status: () => connectionStatus });
 
-  return crannInstance as ConnectReturn<TConfig>;
+  return instance as ConnectReturn<TConfig>;
 }
 
-export function connected(): boolean {
-  return crannInstance !== null;
+export function connected(name: string = DEFAULT_STORE_NAME): boolean {
+  return stores.has(name);
 }
 
 function getDerivedState<TConfig extends AnyConfig>(
@@ -331,5 +590,10 @@ function getDerivedState<TConfig extends AnyConfig>(
       state[key] = item.default;
     }
   });
+  // Computed items start out derived from the defaults until the hub sends
+  // their real values
+  const computed = analyzeComputed(config);
+  Object.assign(state, recompute(config, computed, Partition.Service, state));
+  Object.assign(state, recompute(config, computed, Partition.Instance, state));
   return state;
 }
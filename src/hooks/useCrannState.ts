@@ -1,10 +1,10 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
-import { AnyConfig, DerivedState, StateChanges, StateUpdate } from "../model/crann.model";
+import { AnyConfig, ConnectOptions, DerivedState, LoadStatus, StateChanges, StateUpdate } from "../model/crann.model";
 import { connect } from "../crannAgent";
 
-export function createCrannStateHook<TConfig extends AnyConfig>(config: TConfig) {
+export function createCrannStateHook<TConfig extends AnyConfig>(config: TConfig, options?: ConnectOptions<TConfig>) {
   return function useCrannState(context?: string) {
-    const { useCrann, get, set, subscribe, callAction } = useMemo(() => connect(config), [context]);
+    const { useCrann, get, set, subscribe, callAction, getLoadStatus, onLoadStatusChange } = useMemo(() => connect(config, options), [context]);
 
     const useStateItem = useCallback(<K extends keyof DerivedState<TConfig>>(key: K) => {
       const [value, setValueState] = useState<DerivedState<TConfig>[K]>(get()[key]);
@@ -27,11 +27,27 @@ export function createCrannStateHook<TConfig extends AnyConfig>(config: TConfig)
       return [value, setValue] as const;
     }, [get, set, subscribe]);
 
+    const useLoadStatus = useCallback((key: keyof DerivedState<TConfig>) => {
+      const [status, setStatus] = useState<LoadStatus>(getLoadStatus(key));
+
+      useEffect(() => {
+        setStatus(getLoadStatus(key));
+        return onLoadStatusChange((changedKey, newStatus) => {
+          if (changedKey === key) {
+            setStatus(newStatus);
+          }
+        });
+      }, [key]);
+
+      return status;
+    }, [getLoadStatus, onLoadStatusChange]);
+
     const getState = useCallback(() => get(), [get]);
     const setState = useCallback((newState: StateChanges<TConfig>) => set(newState), [set]);
 
     return {
       useStateItem,
+      useLoadStatus,
       getState,
       setState,
       useCrann,
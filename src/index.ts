@@ -8,6 +8,30 @@ export {
   State,
   Partition,
   Persistence,
+  InstanceKey,
   ConfigItem,
+  ComputedItem,
+  WritePermission,
+  WriteRejection,
+  StorageError,
+  LazyItem,
+  LoadStatus,
   DerivedState,
+  ChangeCause,
+  InstanceEntry,
+  InstanceLifecycleListener,
+  HistoryOptions,
+  ChangeMetadata,
+  StateChangeUpdates,
+  Transaction,
+  SubscribeOptions,
+  Middleware,
+  WriteContext,
 } from "./model/crann.model";
+export { MigrationError, Migrations } from "./utils/migrations";
+export { Codec, defaultCodec } from "./utils/codec";
+export {
+  StorageAdapter,
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+} from "./storage/adapters";
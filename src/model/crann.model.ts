@@ -1,16 +1,46 @@
 import { AgentInfo, BrowserLocation } from "porter-source-fork";
+import { Migrations } from "../utils/migrations";
+import { Codec } from "../utils/codec";
+import { HistoryStatus } from "../utils/history";
+import { StorageAdapter } from "../storage/adapters";
 
 export const Partition = {
   Instance: "instance" as const,
   Service: "service" as const,
+  // Shared by every agent (frame) in the same tab, or the same window
+  Tab: "tab" as const,
+  Window: "window" as const,
+  // Shared by every agent on the same page origin, across tabs
+  Origin: "origin" as const,
 };
 
+// Partitions whose state is shared by a group of agents
+export type SharedPartition =
+  | typeof Partition.Tab
+  | typeof Partition.Window
+  | typeof Partition.Origin;
+
+// The store used when no name is given
+export const DEFAULT_STORE_NAME = "crann";
+
 export const Persistence = {
   Session: "session" as const,
   Local: "local" as const,
+  Sync: "sync" as const,
   None: "none" as const,
 };
 
+// What persisted instance state is keyed by, so that a new agent picks up
+// the state left by earlier agents on the same origin, URL or tab
+export const InstanceKey = {
+  Origin: "origin" as const,
+  Url: "url" as const,
+  TabId: "tabId" as const,
+};
+
+export type InstanceKeyStrategy =
+  (typeof InstanceKey)[keyof typeof InstanceKey];
+
 export type ActionHandler<TState, TArgs extends any[], TResult> = (
   state: TState,
   setState: SetStateFunction<TState>,
@@ -21,6 +51,9 @@ export type ActionHandler<TState, TArgs extends any[], TResult> = (
 export type ActionDefinition<TState, TArgs extends any[], TResult> = {
   handler: ActionHandler<TState, TArgs, TResult>;
   validate?: (...args: TArgs) => void;
+  // Apply every setState call made by the handler together once it
+  // resolves, and none of them if it throws
+  atomic?: boolean;
 };
 
 export type ActionsConfig<TState> = {
@@ -36,22 +69,128 @@ export type SetStateFunction<TState> = {
   (state: Partial<TState>, key: string): Promise<void>;
 };
 
+// Identifies the RPC action call a write was made by
+export type ActionCall = {
+  action: string;
+  target: BrowserLocation;
+};
+
+// Gives the RPC endpoint a setState for one action call, so the hub can
+// tell which action made each write
+export type SetStateForCall<TState> = (
+  call: ActionCall
+) => SetStateFunction<TState>;
+
+// Runs a callback inside a transaction, handing it the state to read and a
+// setState whose writes are applied when the callback resolves
+export type TransactionRunner<TState> = <TResult>(
+  callback: (
+    state: TState,
+    setState: SetStateFunction<TState>
+  ) => Promise<TResult>,
+  call?: ActionCall
+) => Promise<TResult>;
+
 // This is the more specific type that the Crann instance expects
 export type SetStateCallback<TConfig extends AnyConfig> = {
   (state: Partial<DerivedServiceState<TConfig>>): Promise<void>;
   (state: Partial<DerivedInstanceState<TConfig>>, key: string): Promise<void>;
 };
 
+// Which agents may write an item: a list of contexts, or a predicate.
+// Writes made by the hub itself are always allowed.
+export type WritePermission =
+  | Array<BrowserLocation["context"]>
+  | ((agent: AgentInfo) => boolean);
+
+// The handle passed to a Crann.transaction() callback
+export type Transaction<TConfig extends AnyConfig> = {
+  get: {
+    (): DerivedState<TConfig>;
+    (key: string): DerivedInstanceState<TConfig> & DerivedServiceState<TConfig>;
+  };
+  set: {
+    (state: Partial<DerivedServiceState<TConfig>>): void;
+    (
+      state: Partial<
+        MergeStateTypes<
+          DerivedInstanceState<TConfig>,
+          DerivedServiceState<TConfig>
+        >
+      >,
+      key: string
+    ): void;
+  };
+};
+
 // Input types (what users provide in their config)
 export type ConfigItem<T> = {
   default: T;
   partition?: (typeof Partition)[keyof typeof Partition];
   persist?: (typeof Persistence)[keyof typeof Persistence];
+  // Schema version of the persisted value. When it is ahead of the version
+  // found in storage, the matching migrations are run during hydration.
+  version?: number;
+  migrations?: Migrations;
+  // Custom conversion for values the codec can't represent on its own,
+  // e.g. instances of your own classes. `serialize` must return something
+  // the codec can encode, and `deserialize` receives that back.
+  serialize?: (value: T) => any;
+  deserialize?: (value: any) => T;
+  writableBy?: WritePermission;
+  // Where to keep a Persistence.Sync value that storage.sync refuses (for
+  // example when over quota). By default the write is dropped and reported.
+  syncFallback?: typeof Persistence.Local | typeof Persistence.None;
+  // Batch rapid changes to a persisted item into fewer storage writes (ms)
+  debounce?: number;
+  maxWait?: number;
+  // Persist with one of the adapters registered in CrannOptions.storageAdapters
+  // instead of a browser storage area. Takes precedence over `persist`.
+  adapter?: string;
+  // Instance items are only persisted when given a key strategy. All of an
+  // item's saved instances are kept in one record, trimmed to the
+  // `maxEntries` most recently used and to those used within `maxAge` ms.
+  // Origin items are persisted the same way, keyed by origin.
+  persistBy?: InstanceKeyStrategy;
+  maxEntries?: number;
+  maxAge?: number;
+  // Service items only. Resets the value to its default `ttl` ms after it
+  // was last changed. With `entryTtl`, each entry of an object or Map value
+  // is instead removed `entryTtl` ms after that entry was last changed.
+  ttl?: number;
+  entryTtl?: number;
+};
+
+// A service state item whose value is loaded the first time it is needed,
+// rather than given up front. It holds `default` (or undefined) until then.
+// If persisted, the loaded value is stored and later restored instead of
+// being loaded again.
+export type LazyItem<T> = Omit<ConfigItem<T>, "default" | "partition"> & {
+  default?: T;
+  load: () => Promise<T>;
+};
+
+// Where a lazy item's load has got to. Other items are always "loaded".
+export type LoadStatus = {
+  status: "idle" | "loading" | "loaded" | "error";
+  // The error's message, when the load failed
+  error?: string;
+};
+
+// A read-only item derived from other state. The hub re-runs `compute`
+// whenever one of `deps` changes. If any dependency is instance-partitioned,
+// the value is computed separately for each instance.
+export type ComputedItem<T> = {
+  compute: (state: any) => T;
+  deps: string[];
 };
 
 export type AnyConfig = Record<
   string,
-  ConfigItem<any> | ActionDefinition<any, any[], any>
+  | ConfigItem<any>
+  | LazyItem<any>
+  | ComputedItem<any>
+  | ActionDefinition<any, any[], any>
 >;
 
 // Helper type to extract just the state items from a config
@@ -68,24 +207,36 @@ export type ActionConfig<T extends AnyConfig> = {
 export type DerivedState<T extends AnyConfig> = {
   [P in keyof T]: T[P] extends ConfigItem<infer DefaultType>
     ? DefaultType
+    : T[P] extends LazyItem<infer LoadedType>
+    ? LoadedType | undefined
+    : T[P] extends ComputedItem<infer ComputedType>
+    ? ComputedType
     : never;
 };
 
 // Update DerivedInstanceState to use the internal types
+// Tab and window items are included: like instance items, they are read and
+// written through a particular agent.
 export type DerivedInstanceState<T extends AnyConfig> = {
   [P in keyof T]: T[P] extends ConfigItem<infer DefaultType> & {
-    partition: "instance";
+    partition: "instance" | SharedPartition;
   }
     ? DefaultType
     : never;
 };
 
 // Update DerivedServiceState to use the internal types
+// Computed items are included here so they can be read back with get(key),
+// whatever their scope; writes to them are rejected at runtime.
 export type DerivedServiceState<T extends AnyConfig> = {
   [P in keyof T]: T[P] extends ConfigItem<infer DefaultType>
-    ? T[P] extends { partition: "instance" }
+    ? T[P] extends { partition: "instance" | SharedPartition }
       ? never
       : DefaultType
+    : T[P] extends LazyItem<infer LoadedType>
+    ? LoadedType | undefined
+    : T[P] extends ComputedItem<infer ComputedType>
+    ? ComputedType
     : never;
 };
 
@@ -99,28 +250,76 @@ export type MergeStateTypes<TInstance, TService> = OmitNever<TInstance> &
   OmitNever<TService>;
 
 // Type guards
+// Lazy items are state items too
 export const isStateItem = <T>(
-  item: ConfigItem<T> | ActionDefinition<any, any[], any>
+  item: AnyConfig[string]
 ): item is ConfigItem<T> => {
-  return !("handler" in item);
+  return !("handler" in item) && !("compute" in item);
+};
+
+export const isLazyItem = <T>(item: AnyConfig[string]): item is LazyItem<T> => {
+  return "load" in item;
+};
+
+export const isComputedItem = <T>(
+  item: AnyConfig[string]
+): item is ComputedItem<T> => {
+  return "compute" in item;
 };
 
 export const isActionItem = <TState, TArgs extends any[], TResult>(
-  item: ConfigItem<any> | ActionDefinition<TState, TArgs, TResult>
+  item: AnyConfig[string]
 ): item is ActionDefinition<TState, TArgs, TResult> => {
   return "handler" in item;
 };
 
+// What caused a change:
+// - setState: a set() call, from an agent or the hub
+// - action: a write made by an RPC action
+// - undo, redo: a step replayed from history
+// - storage: a value changed in storage by someone else
+// - clear: a call to clear()
+// - hydrate: an agent receiving the state it didn't have yet
+// - load: a lazy item's value having loaded
+// - expire: a value or some of its entries outliving their ttl
+export type ChangeCause =
+  | "setState"
+  | "action"
+  | "load"
+  | "undo"
+  | "redo"
+  | "storage"
+  | "clear"
+  | "hydrate"
+  | "expire";
+
+// Describes the change behind a state update
+export type ChangeMetadata = {
+  cause: ChangeCause;
+  // The agent that made the change; absent when the hub made it
+  agentId?: string;
+  context?: BrowserLocation["context"];
+  // The action's name, when the cause is "action"
+  action?: string;
+  timestamp: number;
+  // Goes up by one with every change the hub makes, so updates can be put
+  // in order
+  seq: number;
+};
+
+// Where a write came from, before it is stamped with a time and sequence
+export type ChangeSource = Omit<ChangeMetadata, "timestamp" | "seq">;
+
 type StateSubscriber<TConfig extends AnyConfig> = {
   keys?: Array<keyof DerivedState<TConfig>>;
-  callback: (changes: StateUpdate<TConfig>) => void;
+  callback: (changes: StateUpdate<TConfig>, meta: ChangeMetadata) => void;
 };
 
 type CrannAgent<TConfig extends AnyConfig> = {
   get: () => DerivedState<TConfig>;
   set: (update: StateUpdate<TConfig>) => void;
   subscribe: (
-    callback: (changes: StateUpdate<TConfig>) => void,
+    callback: (changes: StateUpdate<TConfig>, meta: ChangeMetadata) => void,
     keys?: Array<keyof TConfig>
   ) => () => void;
   getAgentInfo: () => AgentInfo;
@@ -147,6 +346,19 @@ type ConnectReturn<TConfig extends AnyConfig> = {
   callAction: (name: string, ...args: any[]) => Promise<any>;
   onDisconnect: (callback: () => void) => () => void;
   onReconnect: (callback: (info: AgentInfo) => void) => () => void;
+  onWriteRejected: (callback: (rejection: RejectedWrite) => void) => () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  onHistoryChange: (callback: (status: HistoryStatus) => void) => () => void;
+  load: <K extends keyof DerivedState<TConfig>>(
+    key: K
+  ) => Promise<DerivedState<TConfig>[K]>;
+  getLoadStatus: (key: keyof DerivedState<TConfig>) => LoadStatus;
+  onLoadStatusChange: (
+    callback: (key: keyof DerivedState<TConfig>, status: LoadStatus) => void
+  ) => () => void;
 };
 
 export type StateChanges<T extends AnyConfig> = {
@@ -160,33 +372,146 @@ type StateChangeUpdate<
   current: DerivedState<TConfig>[K];
   previous: DerivedState<TConfig>[K];
   state: DerivedState<TConfig>;
+  meta: ChangeMetadata;
 };
 
+// The new and old value of each changed key
+export type StateChangeUpdates<TConfig extends AnyConfig> = {
+  [K in keyof DerivedState<TConfig>]?: {
+    current: DerivedState<TConfig>[K];
+    previous: DerivedState<TConfig>[K];
+  };
+};
+
+// `agent` is the agent whose state changed, if any; `meta.agentId` is the
+// one that made the change
 export type StateChangeListener<TConfig extends AnyConfig> = (
   state: DerivedInstanceState<TConfig> | DerivedState<TConfig>,
   changes: StateChanges<TConfig>,
-  agent?: AgentInfo
+  agent: AgentInfo | undefined,
+  meta: ChangeMetadata,
+  updates: StateChangeUpdates<TConfig>
 ) => void;
 
+export type SubscribeOptions<TConfig extends AnyConfig> = {
+  // Only call the listener when one of these keys changes
+  keys?: Array<keyof DerivedState<TConfig>>;
+  // Only call the listener for changes this instance can see: its own
+  // state, its tab, window and origin state, and service state
+  instance?: string;
+};
+
 type AgentSubscription<TConfig extends AnyConfig> = {
   (
-    callback: (changes: StateUpdate<TConfig>) => void,
+    callback: (changes: StateUpdate<TConfig>, meta: ChangeMetadata) => void,
     key?: keyof DerivedState<TConfig>
   ): number;
 };
 
 type StateUpdate<TConfig extends AnyConfig> = StateChanges<TConfig>;
 
+export type HistoryOptions = {
+  // Maximum number of undo steps kept (default 100)
+  limit?: number;
+  // Changes made within this many ms of each other form one step (default 500)
+  groupWithin?: number;
+  // Service state keys to track; all of them if omitted
+  keys?: string[];
+};
+
+// Describes a write to middleware
+export type WriteContext = ChangeSource & {
+  // The instance the write was made for, if any
+  instance?: string;
+};
+
+// Hooks run on every write: hub set() calls, agents' set() calls and
+// setState calls made by actions, including in transactions.
+export type Middleware<TConfig extends AnyConfig = AnyConfig> = {
+  // Runs before the write is applied. Return the state to write instead, or
+  // nothing to write it as is. Throw to refuse the whole write; the error's
+  // message is given as the reason.
+  beforeSet?: (
+    state: StateChanges<TConfig>,
+    context: WriteContext
+  ) => StateChanges<TConfig> | void;
+  // Runs once the write has been applied, with the state that was written
+  afterSet?: (state: StateChanges<TConfig>, context: WriteContext) => void;
+};
+
 export type CrannOptions = {
+  // Stores with different names are independent, each with its own agents,
+  // actions and storage. Agents connect to a store by its name.
+  name?: string;
   debug?: boolean;
+  // Defaults to the store's name followed by "_"
   storagePrefix?: string;
+  // Must match the codec passed to connect() in every agent
+  codec?: Codec;
+  // Record service state changes so they can be undone and redone
+  history?: boolean | HistoryOptions;
+  // Extra places to persist items, selected per item with `adapter`
+  storageAdapters?: Record<string, StorageAdapter>;
+  // How long to keep a disconnected agent's instance state (ms). An agent
+  // that connects from the same context, tab, frame and URL within this
+  // time gets it back. By default it is dropped straight away.
+  reconnectGracePeriod?: number;
+  // Run in order on every write; more can be added with use()
+  middleware?: Middleware[];
+};
+
+// Called with an instance's state as it was when its agent disconnected
+export type InstanceLifecycleListener<TConfig extends AnyConfig> = (
+  instanceId: string,
+  agent: AgentInfo,
+  state: DerivedInstanceState<TConfig>
+) => void;
+
+// A connected instance, as listed by getInstances()
+export type InstanceEntry<TConfig extends AnyConfig> = {
+  id: string;
+  agent: AgentInfo;
+  // Service, shared and instance state merged, as the agent sees it
+  state: DerivedInstanceState<TConfig> & DerivedServiceState<TConfig>;
+};
+
+// Reported to the hub when persisting an item, or reading it back, fails
+export type StorageError = {
+  key: string;
+  area: string;
+  error: unknown;
+  // Set when the value was kept in another storage area instead
+  fallback?: string;
+};
+
+// Reported to the hub when an agent's write is refused
+export type WriteRejection = {
+  keys: string[];
+  reason: string;
+  agent: AgentInfo;
 };
 
+// Reported back to the agent whose write was refused
+type RejectedWrite = Omit<WriteRejection, "agent">;
+
 type ConnectionStatus = {
   connected: boolean;
   agent?: AgentInfo;
 };
 
+type ConnectOptions<TConfig extends AnyConfig> = {
+  // The store to connect to, as named in create()
+  name?: string;
+  context?: string;
+  debug?: boolean;
+  // Must match the codec passed to create() in the service worker
+  codec?: Codec;
+  // Only receive these keys, plus any the agent is subscribed to. Other
+  // keys in get() keep whatever value they last had. By default the agent
+  // receives every key.
+  keys?: Array<keyof DerivedState<TConfig>>;
+};
+
 export type CrannConfig<TState> = {
   [K: string]: ConfigItem<any> | ActionsConfig<TState>;
 };
@@ -200,5 +525,7 @@ export {
   ConnectReturn,
   UseCrann,
   ConnectionStatus,
+  ConnectOptions,
   StateChangeUpdate,
+  RejectedWrite,
 };
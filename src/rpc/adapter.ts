@@ -6,16 +6,22 @@ import {
   AnyConfig,
   DerivedState,
   SetStateCallback,
-  SetStateFunction,
+  SetStateForCall,
+  TransactionRunner,
 } from "../model/crann.model";
 import { Logger } from "../utils/logger";
 import { getAgentTag } from "../utils/agent";
+import { Codec, defaultCodec } from "../utils/codec";
 
 export function createCrannRPCAdapter<TConfig extends AnyConfig>(
   stateGetter: () => DerivedState<TConfig>,
   actions: Record<string, ActionDefinition<DerivedState<TConfig>, any[], any>>,
   porter?: ReturnType<typeof source> | ReturnType<typeof connect>,
-  setState?: SetStateFunction<DerivedState<TConfig>>
+  setState?: SetStateForCall<DerivedState<TConfig>>,
+  codec: Codec = defaultCodec,
+  transaction?: TransactionRunner<DerivedState<TConfig>>,
+  // Calls that arrive before this resolves are held back until it does
+  ready?: Promise<void>
 ) {
   const porterInstance = porter || source("crann");
 
@@ -112,7 +118,13 @@ export function createCrannRPCAdapter<TConfig extends AnyConfig>(
                   (t: unknown) => t instanceof MessagePort
                 ) as MessagePort[]) || [],
             });
-            listener(rpcEvent);
+            if (ready) {
+              ready.then(() => listener(rpcEvent)).catch((e) => {
+                logger.error("Failed to handle RPC message:", e);
+              });
+            } else {
+              listener(rpcEvent);
+            }
           } catch (e) {
             logger.error("Failed to parse RPC message payload:", e);
           }
@@ -131,7 +143,15 @@ export function createCrannRPCAdapter<TConfig extends AnyConfig>(
     },
   };
 
-  return createEndpoint(messageEndpoint, stateGetter, actions, setState);
+  return createEndpoint(
+    messageEndpoint,
+    stateGetter,
+    actions,
+    setState,
+    undefined,
+    codec,
+    transaction
+  );
 }
 
 // Don't love this being here. Let's move it sometime soon,
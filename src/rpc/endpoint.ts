@@ -9,9 +9,15 @@ import type {
   ErrorMessage,
   RPCMessage,
 } from "./types";
-import { ActionsConfig, SetStateFunction } from "../model/crann.model";
+import {
+  ActionCall,
+  ActionsConfig,
+  SetStateForCall,
+  TransactionRunner,
+} from "../model/crann.model";
 import { Logger } from "../utils/logger";
 import { getAgentTag } from "../utils/agent";
+import { Codec, defaultCodec } from "../utils/codec";
 
 type AnyFunction = (...args: any[]) => any;
 
@@ -56,8 +62,10 @@ export function createEndpoint<TState, TActions extends ActionsConfig<TState>>(
   messenger: MessageEndpoint,
   stateGetter: () => TState,
   actions: TActions,
-  setState?: SetStateFunction<TState>,
-  encodingStrategy?: EncodingStrategy
+  setState?: SetStateForCall<TState>,
+  encodingStrategy?: EncodingStrategy,
+  codec: Codec = defaultCodec,
+  transaction?: TransactionRunner<TState>
 ): RemoteCallable<TActions> {
   const callbacks = new Map<number, (result: unknown) => void>();
   const retainedObjects = new Map<string, Set<Retainer>>();
@@ -78,7 +86,8 @@ export function createEndpoint<TState, TActions extends ActionsConfig<TState>>(
     if ("call" in message && "args" in message.call) {
       logger.debug("Processing call message:", message);
       const callMessage = message.call;
-      const { id: callId, args, target } = callMessage;
+      const { id: callId, target } = callMessage;
+      const args = codec.decode(callMessage.args) as any[];
       const action = actions[callId];
       if (!action) {
         messenger.postMessage([
@@ -114,8 +123,15 @@ export function createEndpoint<TState, TActions extends ActionsConfig<TState>>(
         logger.debug("Executing action with most current state:", currentState);
 
         // Handle both synchronous and asynchronous results
+        const call: ActionCall = { action: callId, target };
         Promise.resolve(
-          action.handler(currentState, setState!, target, ...args)
+          action.atomic && transaction
+            ? transaction(
+                (state, txSetState) =>
+                  action.handler(state, txSetState, target, ...args),
+                call
+              )
+            : action.handler(currentState, setState!(call), target, ...args)
         ).then(
           (result: unknown) => {
             logger.debug("Action handler result:", {
@@ -124,7 +140,7 @@ export function createEndpoint<TState, TActions extends ActionsConfig<TState>>(
             });
             messenger.postMessage([
               id,
-              { result: { id: callId, result, target } },
+              { result: { id: callId, result: codec.encode(result), target } },
             ] as [number, ResultMessage]);
           },
           (error: Error) => {
@@ -155,7 +171,7 @@ export function createEndpoint<TState, TActions extends ActionsConfig<TState>>(
       const resultMessage = message.result;
       const callback = callbacks.get(id);
       if (callback) {
-        callback(resultMessage.result);
+        callback(codec.decode(resultMessage.result));
         callbacks.delete(id);
       }
     } else if ("error" in message) {
@@ -187,10 +203,10 @@ export function createEndpoint<TState, TActions extends ActionsConfig<TState>>(
               resolve(result);
             }
           });
-          messenger.postMessage([id, { call: { id: prop, args } }] as [
-            number,
-            CallMessage
-          ]);
+          messenger.postMessage([
+            id,
+            { call: { id: prop, args: codec.encode(args) } },
+          ] as [number, CallMessage]);
         });
       };
     },
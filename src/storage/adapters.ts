@@ -0,0 +1,136 @@
+import browser from "webextension-polyfill";
+
+/**
+ * Somewhere persisted state can live. Keys are the prefixed storage keys and
+ * values have already been through the codec, so they are JSON-safe.
+ */
+export interface StorageAdapter {
+  // Resolves with only the keys that were found
+  get(keys: string[]): Promise<Record<string, any>>;
+  set(items: Record<string, any>): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  // Calls the listener with the keys that changed whenever anything writes
+  // to the underlying storage, including this adapter itself
+  subscribe?(listener: (keys: string[]) => void): () => void;
+}
+
+export function createBrowserStorageAdapter(
+  name: "local" | "session" | "sync"
+): StorageAdapter {
+  const area = browser.storage[name];
+  return {
+    get: (keys) => area.get(keys),
+    set: (items) => area.set(items),
+    remove: (keys) => area.remove(keys),
+    subscribe: (listener) => watchStorageArea(name, listener),
+  };
+}
+
+export function watchStorageArea(
+  name: string,
+  listener: (keys: string[]) => void
+): () => void {
+  const handleChange = (changes: Record<string, unknown>, areaName: string) => {
+    if (areaName === name) {
+      listener(Object.keys(changes));
+    }
+  };
+  browser.storage.onChanged.addListener(handleChange);
+  return () => browser.storage.onChanged.removeListener(handleChange);
+}
+
+/**
+ * Keeps state in memory only. Useful in tests, or for state that should
+ * survive nothing but still go through the persistence pipeline.
+ */
+export function createMemoryAdapter(): StorageAdapter {
+  const data = new Map<string, any>();
+  return {
+    async get(keys) {
+      const items: Record<string, any> = {};
+      keys.forEach((key) => {
+        if (data.has(key)) {
+          items[key] = data.get(key);
+        }
+      });
+      return items;
+    },
+    async set(items) {
+      Object.keys(items).forEach((key) => data.set(key, items[key]));
+    },
+    async remove(keys) {
+      keys.forEach((key) => data.delete(key));
+    },
+  };
+}
+
+/**
+ * Keeps state in an IndexedDB object store, which has far more room than
+ * extension storage and suits large values such as cached page analyses.
+ */
+export function createIndexedDBAdapter(
+  options: { name?: string; storeName?: string } = {}
+): StorageAdapter {
+  const name = options.name ?? "crann";
+  const storeName = options.storeName ?? "state";
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          // Allow a later call to try again
+          database = null;
+          reject(request.error);
+        };
+      });
+    }
+    return database;
+  };
+
+  const run = async (
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => void
+  ): Promise<void> => {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    async get(keys) {
+      const items: Record<string, any> = {};
+      await run("readonly", (store) => {
+        keys.forEach((key) => {
+          const request = store.get(key);
+          request.onsuccess = () => {
+            if (request.result !== undefined) {
+              items[key] = request.result;
+            }
+          };
+        });
+      });
+      return items;
+    },
+    set(items) {
+      return run("readwrite", (store) => {
+        Object.keys(items).forEach((key) => store.put(items[key], key));
+      });
+    },
+    remove(keys) {
+      return run("readwrite", (store) => {
+        keys.forEach((key) => store.delete(key));
+      });
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { Logger } from "../utils/logger";
+
+export type WriteTiming = {
+  // Wait this long after the last change before writing (ms)
+  debounce?: number;
+  // Never hold a change back for longer than this (ms)
+  maxWait?: number;
+};
+
+type PendingKey = {
+  firstQueuedAt: number;
+  lastQueuedAt: number;
+  debounce: number;
+  maxWait: number;
+};
+
+type AreaQueue = {
+  items: Record<string, any>;
+  keys: Map<string, PendingKey>;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+// MV3 service workers are shut down after 30s without activity, so nothing
+// may wait anywhere near that long to be written.
+const MAX_DELAY = 20000;
+
+/**
+ * Coalesces storage writes. Changes are queued per storage area and written
+ * with a single `set` call once the earliest per-key deadline (its debounce,
+ * or its maxWait since first queued) passes. Everything pending in that area
+ * goes out in the same write.
+ */
+export class PersistScheduler {
+  private queues = new Map<string, AreaQueue>();
+  private logger = Logger.forContext("Core:Persist");
+
+  constructor(
+    private write: (area: string, items: Record<string, any>) => Promise<void>
+  ) {}
+
+  schedule(
+    area: string,
+    items: Record<string, any>,
+    timing: WriteTiming = {}
+  ): void {
+    const queue: AreaQueue = this.queues.get(area) ?? {
+      items: {},
+      keys: new Map(),
+    };
+    this.queues.set(area, queue);
+
+    const now = Date.now();
+    const debounce = Math.min(timing.debounce ?? 0, MAX_DELAY);
+    const maxWait = Math.min(timing.maxWait ?? MAX_DELAY, MAX_DELAY);
+    for (const key in items) {
+      queue.items[key] = items[key];
+      queue.keys.set(key, {
+        firstQueuedAt: queue.keys.get(key)?.firstQueuedAt ?? now,
+        lastQueuedAt: now,
+        debounce,
+        maxWait,
+      });
+    }
+
+    let deadline = Infinity;
+    queue.keys.forEach((pending) => {
+      deadline = Math.min(
+        deadline,
+        pending.lastQueuedAt + pending.debounce,
+        pending.firstQueuedAt + pending.maxWait
+      );
+    });
+
+    if (queue.timer !== undefined) clearTimeout(queue.timer);
+    queue.timer = setTimeout(() => {
+      this.flush(area).catch((error) => {
+        this.logger.error(`Failed to write to ${area} storage:`, error);
+      });
+    }, Math.max(0, deadline - now));
+  }
+
+  isPending(area: string, key: string): boolean {
+    return this.queues.get(area)?.keys.has(key) ?? false;
+  }
+
+  /**
+   * Writes everything pending, immediately.
+   * @param area Only flush this storage area.
+   */
+  async flush(area?: string): Promise<void> {
+    const areas = area ? [area] : Array.from(this.queues.keys());
+    await Promise.all(
+      areas.map((name) => {
+        const queue = this.queues.get(name);
+        if (!queue) return;
+        if (queue.timer !== undefined) clearTimeout(queue.timer);
+        this.queues.delete(name);
+        return this.write(name, queue.items);
+      })
+    );
+  }
+}
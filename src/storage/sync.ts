@@ -0,0 +1,136 @@
+import browser, { Storage } from "webextension-polyfill";
+import { StorageAdapter, watchStorageArea } from "./adapters";
+
+// Chrome's storage.sync limit for a single item, measured as the length of
+// its key plus its JSON-stringified value.
+export const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+
+const CHUNKS = "_@chunks";
+const encoder = new TextEncoder();
+
+function byteLength(value: string): number {
+  return encoder.encode(value).length;
+}
+
+function chunkKey(key: string, index: number): string {
+  return `${key}#${index}`;
+}
+
+/**
+ * storage.sync with values too large for a single item split across several.
+ * A chunked value is stored as `{ "_@chunks": n }` under its own key, with
+ * the pieces of its JSON string under `key#0` ... `key#n-1`.
+ */
+export class ChunkedSyncStorage implements StorageAdapter {
+  // How many chunks each key currently occupies, so stale ones can be removed
+  private chunkCounts = new Map<string, number>();
+
+  constructor(private area: Storage.StorageArea = browser.storage.sync) {}
+
+  async get(keys: string[]): Promise<Record<string, any>> {
+    const stored = await this.area.get(keys);
+    const chunked = keys.filter((key) => stored[key]?.[CHUNKS] !== undefined);
+    const chunkKeys = chunked.reduce<string[]>(
+      (acc, key) => acc.concat(this.chunkKeys(key, stored[key][CHUNKS])),
+      []
+    );
+    const chunks = chunkKeys.length ? await this.area.get(chunkKeys) : {};
+
+    const items: Record<string, any> = { ...stored };
+    for (const key of chunked) {
+      const count: number = stored[key][CHUNKS];
+      this.chunkCounts.set(key, count);
+      let json = "";
+      for (let i = 0; i < count; i++) {
+        json += chunks[chunkKey(key, i)] ?? "";
+      }
+      try {
+        items[key] = JSON.parse(json);
+      } catch (error) {
+        // A partially synced value is as good as missing
+        delete items[key];
+      }
+    }
+    return items;
+  }
+
+  async set(items: Record<string, any>): Promise<void> {
+    const expanded: Record<string, any> = {};
+    const stale: string[] = [];
+
+    for (const key in items) {
+      const json = JSON.stringify(items[key]) ?? "null";
+      const chunks =
+        byteLength(key) + byteLength(json) <= SYNC_QUOTA_BYTES_PER_ITEM
+          ? []
+          : this.split(key, json);
+
+      if (chunks.length === 0) {
+        expanded[key] = items[key];
+      } else {
+        expanded[key] = { [CHUNKS]: chunks.length };
+        chunks.forEach((chunk, i) => {
+          expanded[chunkKey(key, i)] = chunk;
+        });
+      }
+
+      const previous = this.chunkCounts.get(key) ?? 0;
+      for (let i = chunks.length; i < previous; i++) {
+        stale.push(chunkKey(key, i));
+      }
+    }
+
+    await this.area.set(expanded);
+    for (const key in items) {
+      const meta = expanded[key];
+      this.chunkCounts.set(key, meta?.[CHUNKS] ?? 0);
+    }
+    if (stale.length > 0) {
+      await this.area.remove(stale);
+    }
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    const all = keys.reduce<string[]>(
+      (acc, key) =>
+        acc.concat(key, this.chunkKeys(key, this.chunkCounts.get(key) ?? 0)),
+      []
+    );
+    keys.forEach((key) => this.chunkCounts.delete(key));
+    await this.area.remove(all);
+  }
+
+  // Changes to a chunk are reported as changes to the key it belongs to
+  subscribe(listener: (keys: string[]) => void): () => void {
+    return watchStorageArea("sync", (keys) => {
+      const owners = keys.map((key) => key.replace(/#\d+$/, ""));
+      listener(Array.from(new Set(owners)));
+    });
+  }
+
+  private chunkKeys(key: string, count: number): string[] {
+    return Array.from({ length: count }, (_, i) => chunkKey(key, i));
+  }
+
+  // Splits a JSON string into pieces that each fit in one item, measuring
+  // every piece as it will be stored (itself JSON-stringified)
+  private split(key: string, json: string): string[] {
+    const budget =
+      SYNC_QUOTA_BYTES_PER_ITEM - byteLength(chunkKey(key, 9999)) - 2;
+    const chunks: string[] = [];
+    let current = "";
+    let size = 0;
+    for (const char of json) {
+      const cost = byteLength(JSON.stringify(char)) - 2;
+      if (size + cost > budget) {
+        chunks.push(current);
+        current = "";
+        size = 0;
+      }
+      current += char;
+      size += cost;
+    }
+    chunks.push(current);
+    return chunks;
+  }
+}
@@ -1,4 +1,5 @@
-import { AgentInfo } from "porter-source-fork";
+import { Agent, AgentInfo, BrowserLocation } from "porter-source-fork";
+import { InstanceKeyStrategy, SharedPartition } from "../model/crann.model";
 
 /**
  * Formats an agent tag based on the agent information
@@ -26,3 +27,110 @@ export function getAgentTag(
   }
   return `${agent.location.context}:${formattedTabId}:${agent.location.frameId}`;
 }
+
+/**
+ * Identifies where an agent runs, so that a reconnecting agent can be
+ * matched with the one it replaces
+ * @param location The agent's location
+ * @returns The key
+ */
+export function getLocationKey(location: BrowserLocation): string {
+  return `${location.context}:${location.tabId}:${location.frameId}`;
+}
+
+// What an opaque origin (about:blank, data: URLs, sandboxed frames)
+// serializes to. Unrelated pages share it, so it can't key anything.
+const OPAQUE_ORIGIN = "null";
+
+// Starts the origin key of an agent on an opaque origin
+const OPAQUE_ORIGIN_PREFIX = "opaque:";
+
+/**
+ * The key origin state is kept under for an agent on an opaque origin. It is
+ * the agent's own, so the state is shared with nothing else and lasts only
+ * as long as the instance.
+ * @param location The agent's location
+ * @returns The key
+ */
+export function getOpaqueOriginKey(location: BrowserLocation): string {
+  return OPAQUE_ORIGIN_PREFIX + getLocationKey(location);
+}
+
+/**
+ * Whether a key from getSharedKey belongs to an agent on an opaque origin
+ * @param key The origin key
+ */
+export function isOpaqueOriginKey(key: string): boolean {
+  return key.startsWith(OPAQUE_ORIGIN_PREFIX);
+}
+
+// The origin an agent's page is on, as the browser reports it
+function getOrigin(agent: Agent): string | undefined {
+  const sender = agent.port?.sender;
+  // Only sender.origin knows a sandboxed frame's origin is opaque
+  if (sender?.origin) return sender.origin;
+  const url = sender?.url ?? sender?.tab?.url;
+  if (!url) return undefined;
+  try {
+    return new URL(url).origin;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Works out the key an agent's persisted instance state is stored under
+ * @param agent The connected agent
+ * @param strategy What to key by
+ * @returns The key, or undefined if the agent has nothing to key by (for
+ * example a popup has no tab, and an opaque origin is no one's in
+ * particular)
+ */
+export function getInstanceKey(
+  agent: Agent,
+  strategy: InstanceKeyStrategy
+): string | undefined {
+  const sender = agent.port?.sender;
+  const url = sender?.url ?? sender?.tab?.url;
+  switch (strategy) {
+    case "tabId":
+      return sender?.tab?.id !== undefined ? String(sender.tab.id) : undefined;
+    case "url":
+      return url;
+    case "origin": {
+      const origin = getOrigin(agent);
+      return origin === OPAQUE_ORIGIN ? undefined : origin;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Works out which group of agents sharing a partition an agent belongs to
+ * @param agent The connected agent
+ * @param partition The shared partition
+ * @returns The group's key, or undefined if the agent isn't in one (for
+ * example a popup is in no tab). An agent on an opaque origin is in a group
+ * of its own (see getOpaqueOriginKey).
+ */
+export function getSharedKey(
+  agent: Agent,
+  partition: SharedPartition
+): string | undefined {
+  const tab = agent.port?.sender?.tab;
+  switch (partition) {
+    case "tab":
+      return tab?.id !== undefined ? String(tab.id) : undefined;
+    case "window":
+      return tab?.windowId !== undefined ? String(tab.windowId) : undefined;
+    case "origin": {
+      const origin = getOrigin(agent);
+      return origin === OPAQUE_ORIGIN
+        ? getOpaqueOriginKey(agent.info.location)
+        : origin;
+    }
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,191 @@
+import { AnyConfig, ConfigItem, isStateItem } from "../model/crann.model";
+
+/**
+ * Converts values to and from a JSON-safe form. Used for everything that
+ * leaves the hub: persisted values, state sent to agents, and RPC arguments
+ * and results. The hub and its agents must use the same codec.
+ */
+export interface Codec {
+  encode(value: unknown): unknown;
+  decode(value: unknown): unknown;
+}
+
+const TYPE = "_@t";
+const VALUE = "_@v";
+
+type TypedArrayConstructor = {
+  new (values: ArrayLike<any>): ArrayLike<any>;
+  name: string;
+};
+
+const typedArrays: TypedArrayConstructor[] = [
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  // Not available in every runtime we might be bundled for
+  typeof BigInt64Array !== "undefined" ? BigInt64Array : undefined,
+  typeof BigUint64Array !== "undefined" ? BigUint64Array : undefined,
+].filter((ctor) => ctor !== undefined) as TypedArrayConstructor[];
+
+function tag(type: string, value?: unknown) {
+  return { [TYPE]: type, [VALUE]: value };
+}
+
+/**
+ * The default codec. Round-trips Date, Map, Set, BigInt, RegExp, typed
+ * arrays, ArrayBuffer and undefined by wrapping them in tagged objects, and
+ * leaves everything JSON can already represent untouched.
+ */
+export const defaultCodec: Codec = {
+  encode,
+  decode,
+};
+
+function encode(value: unknown): unknown {
+  if (value === undefined) return tag("undefined");
+  if (typeof value === "bigint") return tag("BigInt", value.toString());
+  if (value === null || typeof value !== "object") return value;
+
+  if (Array.isArray(value)) return value.map(encode);
+  if (value instanceof Date) return tag("Date", value.getTime());
+  if (value instanceof RegExp) {
+    return tag("RegExp", [value.source, value.flags]);
+  }
+  if (value instanceof Map) {
+    return tag(
+      "Map",
+      Array.from(value.entries()).map(([k, v]) => [encode(k), encode(v)])
+    );
+  }
+  if (value instanceof Set) return tag("Set", Array.from(value).map(encode));
+  if (value instanceof ArrayBuffer) {
+    return tag("ArrayBuffer", Array.from(new Uint8Array(value)));
+  }
+  for (const ctor of typedArrays) {
+    if (value instanceof ctor) {
+      return tag(ctor.name, Array.from(value).map(encode));
+    }
+  }
+
+  const encoded: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    encoded[key] = encode((value as Record<string, unknown>)[key]);
+  }
+  // Escape objects that would otherwise be mistaken for a tag on decode
+  return TYPE in encoded ? tag("Object", encoded) : encoded;
+}
+
+function decode(value: unknown): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(decode);
+
+  const object = value as Record<string, any>;
+  if (!(TYPE in object)) return decodeObject(object);
+
+  const tagged = object[VALUE];
+  switch (object[TYPE]) {
+    case "undefined":
+      return undefined;
+    case "BigInt":
+      return BigInt(tagged);
+    case "Date":
+      return new Date(tagged);
+    case "RegExp":
+      return new RegExp(tagged[0], tagged[1]);
+    case "Map":
+      return new Map(
+        (tagged as [unknown, unknown][]).map(([k, v]) => [
+          decode(k),
+          decode(v),
+        ])
+      );
+    case "Set":
+      return new Set((tagged as unknown[]).map(decode));
+    case "ArrayBuffer":
+      return new Uint8Array(tagged).buffer;
+    case "Object":
+      return decodeObject(tagged);
+    default: {
+      const ctor = typedArrays.find((ctor) => ctor.name === object[TYPE]);
+      return ctor
+        ? new ctor((tagged as unknown[]).map(decode))
+        : decodeObject(object);
+    }
+  }
+}
+
+function decodeObject(object: Record<string, unknown>) {
+  const decoded: Record<string, unknown> = {};
+  for (const key of Object.keys(object)) {
+    decoded[key] = decode(object[key]);
+  }
+  return decoded;
+}
+
+/**
+ * Encodes a single state value, running the item's own `serialize` hook
+ * before the codec. Undefined (e.g. a lazy item that hasn't loaded) skips
+ * the hook.
+ */
+export function encodeValue(
+  item: ConfigItem<any> | undefined,
+  value: unknown,
+  codec: Codec
+): unknown {
+  return codec.encode(
+    item?.serialize && value !== undefined ? item.serialize(value) : value
+  );
+}
+
+/**
+ * Decodes a single state value, running the item's own `deserialize` hook
+ * after the codec. Undefined skips the hook, as in encodeValue.
+ */
+export function decodeValue(
+  item: ConfigItem<any> | undefined,
+  value: unknown,
+  codec: Codec
+): unknown {
+  const decoded = codec.decode(value);
+  return item?.deserialize && decoded !== undefined
+    ? item.deserialize(decoded)
+    : decoded;
+}
+
+export function encodeState<TConfig extends AnyConfig>(
+  config: TConfig,
+  state: Record<string, any>,
+  codec: Codec
+): Record<string, any> {
+  const encoded: Record<string, any> = {};
+  for (const key of Object.keys(state)) {
+    encoded[key] = encodeValue(getStateItem(config, key), state[key], codec);
+  }
+  return encoded;
+}
+
+export function decodeState<TConfig extends AnyConfig>(
+  config: TConfig,
+  state: Record<string, any>,
+  codec: Codec
+): Record<string, any> {
+  const decoded: Record<string, any> = {};
+  for (const key of Object.keys(state)) {
+    decoded[key] = decodeValue(getStateItem(config, key), state[key], codec);
+  }
+  return decoded;
+}
+
+function getStateItem<TConfig extends AnyConfig>(
+  config: TConfig,
+  key: string
+): ConfigItem<any> | undefined {
+  const item = config[key];
+  return item && isStateItem(item) ? item : undefined;
+}
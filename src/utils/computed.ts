@@ -0,0 +1,87 @@
+import { AnyConfig, Partition, isComputedItem } from "../model/crann.model";
+import { deepEqual } from "./deepEqual";
+
+export type ComputedScope =
+  | typeof Partition.Service
+  | typeof Partition.Instance;
+
+export type ComputedEntry = {
+  key: string;
+  scope: ComputedScope;
+};
+
+/**
+ * Orders the config's computed items so each one is evaluated after any
+ * computed items it depends on, and works out which of them are per-instance
+ * (they depend, directly or through another computed item, on state that
+ * isn't the same for every agent: instance, tab or window partitioned).
+ * @throws If computed items depend on each other in a cycle.
+ */
+export function analyzeComputed(config: AnyConfig): ComputedEntry[] {
+  const ordered: ComputedEntry[] = [];
+  const scopes = new Map<string, ComputedScope>();
+  const visiting = new Set<string>();
+
+  const visit = (key: string): ComputedScope => {
+    const item = config[key];
+    if (!item || !isComputedItem(item)) {
+      return item &&
+        "partition" in item &&
+        item.partition &&
+        item.partition !== Partition.Service
+        ? Partition.Instance
+        : Partition.Service;
+    }
+    const known = scopes.get(key);
+    if (known) return known;
+    if (visiting.has(key)) {
+      throw new Error(`Computed item "${key}" has a circular dependency`);
+    }
+
+    visiting.add(key);
+    const scope = item.deps.map(visit).includes(Partition.Instance)
+      ? Partition.Instance
+      : Partition.Service;
+    visiting.delete(key);
+
+    scopes.set(key, scope);
+    ordered.push({ key, scope });
+    return scope;
+  };
+
+  Object.keys(config).forEach(visit);
+  return ordered;
+}
+
+/**
+ * Re-evaluates the computed items of one scope against a state view.
+ * If `changed` is given, only items whose dependencies are among those keys
+ * (or among computed items that changed as a result) are re-evaluated.
+ * @returns The computed values that differ from those in the view.
+ */
+export function recompute(
+  config: AnyConfig,
+  computed: ComputedEntry[],
+  scope: ComputedScope,
+  view: Record<string, any>,
+  changed?: Iterable<string>
+): Record<string, any> {
+  const updates: Record<string, any> = {};
+  const current = { ...view };
+  const dirty = changed ? new Set(changed) : undefined;
+
+  for (const entry of computed) {
+    if (entry.scope !== scope) continue;
+    const item = config[entry.key];
+    if (!isComputedItem(item)) continue;
+    if (dirty && !item.deps.some((dep) => dirty.has(dep))) continue;
+
+    const value = item.compute(current);
+    if (!deepEqual(value, current[entry.key])) {
+      updates[entry.key] = current[entry.key] = value;
+      dirty?.add(entry.key);
+    }
+  }
+
+  return updates;
+}
@@ -3,6 +3,28 @@ export function deepEqual(a: any, b: any): boolean {
 
     if (a == null || typeof a !== 'object' || b == null || typeof b !== 'object') return false;
 
+    // These keep their contents outside of own enumerable keys
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+    if (a instanceof RegExp || b instanceof RegExp) {
+        return a instanceof RegExp && b instanceof RegExp && a.toString() === b.toString();
+    }
+    if (a instanceof Map || b instanceof Map) {
+        if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) return false;
+        for (const [key, value] of a) {
+            if (!b.has(key) || !deepEqual(value, b.get(key))) return false;
+        }
+        return true;
+    }
+    if (a instanceof Set || b instanceof Set) {
+        if (!(a instanceof Set && b instanceof Set) || a.size !== b.size) return false;
+        for (const value of a) {
+            if (!b.has(value)) return false;
+        }
+        return true;
+    }
+
     const keysA = Object.keys(a);
     const keysB = Object.keys(b);
 
@@ -0,0 +1,79 @@
+import { deepEqual } from "./deepEqual";
+
+export const EXPIRES_SUFFIX = "__expires";
+
+// When an item's value, and each of its entries, expire (ms since epoch).
+// Persisted next to the value under its key plus EXPIRES_SUFFIX.
+export type Expiry = {
+  at?: number;
+  entries?: Record<string, number>;
+};
+
+function entriesOf(value: unknown): Array<[string, unknown]> {
+  if (value instanceof Map) {
+    return Array.from(value.entries()).map(
+      ([key, entry]): [string, unknown] => [String(key), entry]
+    );
+  }
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return Object.entries(value);
+  }
+  return [];
+}
+
+/**
+ * Works out a value's expiry after it changes from `previous`. The whole
+ * value expires `ttl` ms from now; each entry that was added or changed
+ * expires `entryTtl` ms from now, while unchanged entries keep theirs.
+ */
+export function stampExpiry(
+  { ttl, entryTtl }: { ttl?: number; entryTtl?: number },
+  previous: unknown,
+  value: unknown,
+  current: Expiry | undefined,
+  now: number
+): Expiry {
+  const expiry: Expiry = {};
+  if (ttl !== undefined) {
+    expiry.at = now + ttl;
+  }
+  if (entryTtl !== undefined) {
+    const before = new Map(entriesOf(previous));
+    expiry.entries = {};
+    for (const [key, entry] of entriesOf(value)) {
+      const kept = current?.entries?.[key];
+      const unchanged = before.has(key) && deepEqual(before.get(key), entry);
+      expiry.entries[key] =
+        kept !== undefined && unchanged ? kept : now + entryTtl;
+    }
+  }
+  return expiry;
+}
+
+// The entries of an expiry that are due by `now`
+export function dueEntries(expiry: Expiry, now: number): string[] {
+  return Object.keys(expiry.entries ?? {}).filter(
+    (key) => expiry.entries![key] <= now
+  );
+}
+
+// The earliest time anything in an expiry is due, or Infinity
+export function nextDue(expiry: Expiry): number {
+  return Math.min(
+    expiry.at ?? Infinity,
+    ...Object.values(expiry.entries ?? {})
+  );
+}
+
+// A copy of a Map or object value without the given entries
+export function withoutEntries<T>(value: T, keys: string[]): T {
+  const removed = new Set(keys);
+  if (value instanceof Map) {
+    return new Map(
+      Array.from(value.entries()).filter(([key]) => !removed.has(String(key)))
+    ) as unknown as T;
+  }
+  const copy: Record<string, unknown> = { ...(value as any) };
+  keys.forEach((key) => delete copy[key]);
+  return copy as T;
+}
@@ -0,0 +1,86 @@
+type HistoryEntry = {
+  // The values to restore to undo the step, and to redo it again
+  undo: Record<string, any>;
+  redo: Record<string, any>;
+  recordedAt: number;
+};
+
+export type HistoryStatus = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+/**
+ * Bounded undo/redo stacks of state changes. Each entry stores only the
+ * keys that changed, with their values before and after. Changes recorded
+ * within `groupWithin` ms of the previous one are folded into the same step.
+ */
+export class StateHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+
+  constructor(private limit: number, private groupWithin: number) {}
+
+  record(previous: Record<string, any>, next: Record<string, any>): void {
+    const now = Date.now();
+    const last = this.past[this.past.length - 1];
+    this.future = [];
+
+    if (last && now - last.recordedAt <= this.groupWithin) {
+      // Keep the oldest previous value and the newest next value per key
+      last.undo = { ...previous, ...last.undo };
+      last.redo = { ...last.redo, ...next };
+      last.recordedAt = now;
+      return;
+    }
+
+    this.past.push({ undo: previous, redo: next, recordedAt: now });
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+  }
+
+  peekUndo(): Record<string, any> | undefined {
+    return this.past[this.past.length - 1]?.undo;
+  }
+
+  peekRedo(): Record<string, any> | undefined {
+    return this.future[this.future.length - 1]?.redo;
+  }
+
+  undo(): Record<string, any> | undefined {
+    const entry = this.past.pop();
+    if (!entry) return undefined;
+    this.future.push(entry);
+    this.seal();
+    return entry.undo;
+  }
+
+  redo(): Record<string, any> | undefined {
+    const entry = this.future.pop();
+    if (!entry) return undefined;
+    this.past.push(entry);
+    this.seal();
+    return entry.redo;
+  }
+
+  // After an undo or redo, the next change always starts a new step
+  private seal(): void {
+    const last = this.past[this.past.length - 1];
+    if (last) {
+      last.recordedAt = 0;
+    }
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+
+  getStatus(): HistoryStatus {
+    return {
+      canUndo: this.past.length > 0,
+      canRedo: this.future.length > 0,
+    };
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Wraps state so that reading one of `keys` from it calls `onRead` with the
+ * key, letting a lazy item start loading the first time it is read. Returns
+ * the state as it is when there are no keys to watch.
+ */
+export function watchReads<T extends object>(
+  state: T,
+  keys: string[],
+  onRead: (key: string) => void
+): T {
+  if (keys.length === 0) return state;
+  return new Proxy(state, {
+    get(target, property, receiver) {
+      if (typeof property === "string" && keys.includes(property)) {
+        onRead(property);
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
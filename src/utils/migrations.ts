@@ -0,0 +1,39 @@
+export type Migration = (value: any) => any;
+
+// Keyed by the version each migration upgrades the value *to*.
+export type Migrations = Record<number, Migration>;
+
+export const VERSION_SUFFIX = "__version";
+
+export type MigrationError = {
+  key: string;
+  fromVersion: number;
+  toVersion: number;
+  error: unknown;
+};
+
+/**
+ * Brings a persisted value from its stored schema version up to the
+ * configured one by running every migration in between, in ascending order.
+ * Steps without a migration are treated as no-ops.
+ * @throws If the stored version is newer than the configured version, or if
+ * any migration throws.
+ */
+export function migrate(
+  value: any,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Migrations = {}
+): any {
+  if (fromVersion > toVersion) {
+    throw new Error(
+      `Stored version ${fromVersion} is newer than configured version ${toVersion}`
+    );
+  }
+
+  return Object.keys(migrations)
+    .map(Number)
+    .filter((version) => version > fromVersion && version <= toVersion)
+    .sort((a, b) => a - b)
+    .reduce((current, version) => migrations[version](current), value);
+}
@@ -0,0 +1,170 @@
+// JSON-Patch style operations. Paths are JSON Pointers ("/items/3/title"),
+// with "" standing for the whole value.
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string };
+
+// What a stateUpdate carries: changed values in full, and patches for the
+// values that were cheaper to send as one
+export type StateUpdatePayload = {
+  state: Record<string, unknown>;
+  patches?: Record<string, PatchOperation[]>;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function isContainer(value: unknown): boolean {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+function toPointer(path: string, segment: string | number): string {
+  return `${path}/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
+
+function fromPointer(path: string): string[] {
+  if (path === "") return [];
+  return path
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Lists the operations that turn `previous` into `next`. Both must be
+ * JSON-safe (i.e. already encoded). Arrays are compared index by index, so
+ * appending or truncating is cheap but inserting near the start is not.
+ */
+export function createPatch(
+  previous: unknown,
+  next: unknown,
+  path = ""
+): PatchOperation[] {
+  if (previous === next) return [];
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const operations: PatchOperation[] = [];
+    const common = Math.min(previous.length, next.length);
+    for (let i = 0; i < common; i++) {
+      operations.push(...createPatch(previous[i], next[i], toPointer(path, i)));
+    }
+    for (let i = common; i < next.length; i++) {
+      operations.push({ op: "add", path: toPointer(path, i), value: next[i] });
+    }
+    // From the end, so earlier indexes stay valid
+    for (let i = previous.length - 1; i >= next.length; i--) {
+      operations.push({ op: "remove", path: toPointer(path, i) });
+    }
+    return operations;
+  }
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const operations: PatchOperation[] = [];
+    for (const key of Object.keys(previous)) {
+      if (!(key in next)) {
+        operations.push({ op: "remove", path: toPointer(path, key) });
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (key in previous) {
+        operations.push(
+          ...createPatch(previous[key], next[key], toPointer(path, key))
+        );
+      } else {
+        operations.push({
+          op: "add",
+          path: toPointer(path, key),
+          value: next[key],
+        });
+      }
+    }
+    return operations;
+  }
+
+  return [{ op: "replace", path, value: next }];
+}
+
+function applyOperation(
+  target: any,
+  segments: string[],
+  operation: PatchOperation
+): any {
+  if (segments.length === 0) {
+    return operation.op === "remove" ? undefined : operation.value;
+  }
+
+  const [segment, ...rest] = segments;
+  const copy = Array.isArray(target) ? target.slice() : { ...target };
+  if (rest.length > 0) {
+    copy[segment] = applyOperation(target?.[segment], rest, operation);
+    return copy;
+  }
+
+  if (Array.isArray(copy)) {
+    const index = segment === "-" ? copy.length : Number(segment);
+    if (operation.op === "add") {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === "remove") {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = operation.value;
+    }
+  } else if (operation.op === "remove") {
+    delete copy[segment];
+  } else {
+    copy[segment] = operation.value;
+  }
+  return copy;
+}
+
+/**
+ * Applies operations to a value without modifying it. Objects and arrays
+ * along each operation's path are copied; everything else is shared with
+ * the original.
+ */
+export function applyPatch(value: unknown, operations: PatchOperation[]) {
+  return operations.reduce(
+    (current, operation) =>
+      applyOperation(current, fromPointer(operation.path), operation),
+    value
+  );
+}
+
+/**
+ * Builds a stateUpdate payload from encoded changed values. Where the
+ * receiver's current value is known (`previous`), objects and arrays are
+ * sent as a patch against it if that is smaller than the new value.
+ */
+export function createStateUpdate(
+  changes: Record<string, unknown>,
+  previous: Record<string, unknown> = {}
+): StateUpdatePayload {
+  const state: Record<string, unknown> = {};
+  const patches: Record<string, PatchOperation[]> = {};
+  for (const key of Object.keys(changes)) {
+    const next = changes[key];
+    if (!(key in previous) || !isContainer(next)) {
+      state[key] = next;
+      continue;
+    }
+    const patch = createPatch(previous[key], next);
+    if (JSON.stringify(patch).length < JSON.stringify(next).length) {
+      patches[key] = patch;
+    } else {
+      state[key] = next;
+    }
+  }
+  return Object.keys(patches).length > 0 ? { state, patches } : { state };
+}
+
+// Whether a value is worth diffing against the receiver's copy
+export function isPatchable(value: unknown): boolean {
+  return isContainer(value);
+}